@@ -1,3 +1,5 @@
+import { INVALID_AXIOS_RESPONSES, REQUEST_METHODS, VALID_REQUEST_PROTOCOLS } from '../enums/index.js';
+
 export const REQUEST_METRICS_TO_VALIDATE_KEYS = [
     'totalAttempts',
     'successfulAttempts',
@@ -19,7 +21,56 @@ export const CACHE_METRICS_TO_VALIDATE_KEYS = [
     'evictionRate'
 ] as const;
 
+export const BATCH_METRICS_TO_VALIDATE_KEYS = [
+    'successRate',
+    'failureRate',
+    'totalExecutionTime',
+    'throughput'
+] as const;
+
+export const BULKHEAD_METRICS_TO_VALIDATE_KEYS = [
+    'activeRequests',
+    'queuedRequests',
+    'rejectedRequests',
+    'rejectionRate',
+    'utilizationPercentage'
+] as const;
+
 export const STABLE_BUFFER_METRICS_TO_VALIDATE_KEYS = [
     'totalTransactions',
     'averageQueueWaitMs'
 ] as const;
+
+export const DEFAULT_RETRYABLE_STATUS_CODES = [408, 409, 429] as const;
+
+export const DEFAULT_RETRYABLE_ERROR_CODES: string[] = [
+    INVALID_AXIOS_RESPONSES.RESET,
+    INVALID_AXIOS_RESPONSES.TIMEDOUT,
+    INVALID_AXIOS_RESPONSES.REFUSED,
+    INVALID_AXIOS_RESPONSES.NOTFOUND,
+    INVALID_AXIOS_RESPONSES.EAI_AGAIN
+];
+
+export const IDEMPOTENT_REQUEST_METHODS: REQUEST_METHODS[] = [
+    REQUEST_METHODS.GET,
+    REQUEST_METHODS.PUT,
+    REQUEST_METHODS.DELETE,
+    REQUEST_METHODS.HEAD,
+    REQUEST_METHODS.OPTIONS
+];
+
+export const DEFAULT_IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const DEFAULT_IDEMPOTENT_KEY_METHODS: REQUEST_METHODS[] = [
+    REQUEST_METHODS.POST,
+    REQUEST_METHODS.PATCH
+];
+
+export const DEADLINE_FINAL_ATTEMPT_MARGIN_MS = 50;
+
+export const HEDGEABLE_REQUEST_METHODS: REQUEST_METHODS[] = [REQUEST_METHODS.GET, REQUEST_METHODS.HEAD];
+
+export const DEFAULT_PROTOCOL_PORTS: Record<VALID_REQUEST_PROTOCOLS, number> = {
+    [VALID_REQUEST_PROTOCOLS.HTTP]: 80,
+    [VALID_REQUEST_PROTOCOLS.HTTPS]: 443
+};
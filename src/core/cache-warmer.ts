@@ -0,0 +1,143 @@
+import { AxiosRequestConfig } from 'axios';
+
+import { CacheWarmerConfig, STABLE_REQUEST } from '../types/index.js';
+
+import {
+  CacheManager,
+  formatLogContext,
+  generateAxiosRequestConfig,
+  resolveCacheManager
+} from '../utilities/index.js';
+
+import { stableRequest } from './stable-request.js';
+
+type WarmedRequest = {
+  options: STABLE_REQUEST;
+  reqConfig: AxiosRequestConfig;
+  inFlight: boolean;
+  nextAttemptAt: number;
+};
+
+export class CacheWarmer {
+  private readonly cacheManager: CacheManager;
+  private readonly config: Required<Omit<CacheWarmerConfig, 'cache'>>;
+  private warmedRequests: Set<WarmedRequest> = new Set();
+  private timer?: ReturnType<typeof setInterval>;
+  private activeRefreshes = 0;
+
+  constructor(config: CacheWarmerConfig) {
+    const cacheManager = resolveCacheManager(config.cache);
+    if (!cacheManager) {
+      throw new Error('stable-request: CacheWarmer requires an enabled cache.');
+    }
+    this.cacheManager = cacheManager;
+    this.config = {
+      refreshAheadMs: Math.max(0, config.refreshAheadMs ?? 5000),
+      concurrency: Math.max(1, config.concurrency ?? 2),
+      checkIntervalMs: Math.max(1, config.checkIntervalMs ?? 1000),
+      failureBackoffMs: Math.max(0, config.failureBackoffMs ?? 5000)
+    };
+  }
+
+  register<RequestDataType = any, ResponseDataType = any>(
+    options: STABLE_REQUEST<RequestDataType, ResponseDataType>
+  ): () => void {
+    const warmedRequest: WarmedRequest = {
+      options,
+      reqConfig: generateAxiosRequestConfig(options.reqData),
+      inFlight: false,
+      nextAttemptAt: 0
+    };
+    this.warmedRequests.add(warmedRequest);
+    return () => {
+      this.warmedRequests.delete(warmedRequest);
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.runScheduledRefresh(), this.config.checkIntervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+    this.runScheduledRefresh();
+  }
+
+  private runScheduledRefresh(): void {
+    this.refreshDue().catch((error) => {
+      console.warn('stable-request: Scheduled cache refresh failed.', error);
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async refreshDue(): Promise<void> {
+    const now = Date.now();
+    const due = Array.from(this.warmedRequests).filter((warmedRequest) => {
+      if (warmedRequest.inFlight || now < warmedRequest.nextAttemptAt) {
+        return false;
+      }
+      const cached = this.cacheManager.peek(warmedRequest.reqConfig);
+      if (!cached) {
+        return true;
+      }
+      const refreshAheadMs = Math.min(this.config.refreshAheadMs, (cached.expiresAt - cached.timestamp) / 2);
+      return cached.expiresAt - now <= refreshAheadMs;
+    });
+    const available = Math.max(0, this.config.concurrency - this.activeRefreshes);
+    await Promise.all(due.slice(0, available).map((warmedRequest) => this.refresh(warmedRequest)));
+  }
+
+  private async refresh(warmedRequest: WarmedRequest): Promise<void> {
+    warmedRequest.inFlight = true;
+    this.activeRefreshes++;
+    let success = false;
+    let error: string | undefined;
+    try {
+      const result = await stableRequest({
+        ...warmedRequest.options,
+        cache: this.cacheManager,
+        cacheRefresh: true,
+        singleFlight: false
+      });
+      success = result.success && !result.stale && !result.fallbackUsed;
+      error = result.error;
+    } catch (e: any) {
+      error = e?.message;
+    } finally {
+      warmedRequest.inFlight = false;
+      this.activeRefreshes--;
+    }
+
+    this.cacheManager.recordRefresh(success);
+    if (!success) {
+      console.warn(
+        `${formatLogContext(warmedRequest.options.executionContext)}stable-request: Cache refresh failed, keeping the existing entry.\n`,
+        error
+      );
+    }
+    const refreshed = success ? this.cacheManager.peek(warmedRequest.reqConfig) : null;
+    warmedRequest.nextAttemptAt = refreshed && refreshed.expiresAt > Date.now()
+      ? 0
+      : Date.now() + this.config.failureBackoffMs;
+  }
+
+  getState(): {
+    running: boolean;
+    registeredRequests: number;
+    activeRefreshes: number;
+    config: Required<Omit<CacheWarmerConfig, 'cache'>>;
+  } {
+    return {
+      running: !!this.timer,
+      registeredRequests: this.warmedRequests.size,
+      activeRefreshes: this.activeRefreshes,
+      config: this.config
+    };
+  }
+}
@@ -1,2 +1,4 @@
 export { stableRequest } from './stable-request.js';
+export { stableRequestBatch } from './stable-request-batch.js';
 export { StableBuffer } from './stable-buffer.js';
+export { CacheWarmer } from './cache-warmer.js';
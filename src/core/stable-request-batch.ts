@@ -0,0 +1,149 @@
+import {
+  STABLE_REQUEST,
+  STABLE_REQUEST_BATCH_OPTIONS,
+  STABLE_REQUEST_BATCH_RESULT,
+  STABLE_REQUEST_RESULT,
+  StableRequestBatchMetrics
+} from '../types/index.js';
+
+import {
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  formatLogContext,
+  resolveCacheManager,
+  MetricsAggregator,
+  MetricsValidator
+} from '../utilities/index.js';
+
+import { stableRequest } from './stable-request.js';
+
+const getPercentile = (sortedValues: number[], percentile: number): number => {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+  const index = Math.ceil((percentile / 100) * sortedValues.length) - 1;
+  return sortedValues[Math.min(sortedValues.length - 1, Math.max(0, index))];
+};
+
+export async function stableRequestBatch<RequestDataType = any, ResponseDataType = any>(
+  requests: STABLE_REQUEST<RequestDataType, ResponseDataType>[],
+  options: STABLE_REQUEST_BATCH_OPTIONS<RequestDataType, ResponseDataType> = {}
+): Promise<STABLE_REQUEST_BATCH_RESULT<ResponseDataType>> {
+  const {
+    concurrency = 10,
+    stopOnFirstFailure = false,
+    commonBuffer,
+    circuitBreaker,
+    cache,
+    sharedOptions = {},
+    executionContext,
+    metricsGuardrails
+  } = options;
+
+  const circuitBreakerInstance = circuitBreaker
+    ? circuitBreaker instanceof CircuitBreaker || circuitBreaker instanceof CircuitBreakerRegistry
+      ? circuitBreaker
+      : new CircuitBreaker(circuitBreaker)
+    : undefined;
+
+  const cacheManager = resolveCacheManager(cache);
+
+  const batchStartTime = Date.now();
+  const results: STABLE_REQUEST_RESULT<ResponseDataType>[] = new Array(requests.length);
+  const executed: boolean[] = new Array(requests.length).fill(false);
+  let nextIndex = 0;
+  let stopped = false;
+
+  const runRequest = async (index: number): Promise<void> => {
+    const request = requests[index];
+    const requestOptions: STABLE_REQUEST<RequestDataType, ResponseDataType> = {
+      ...sharedOptions,
+      ...(commonBuffer && { commonBuffer }),
+      ...(circuitBreakerInstance && { circuitBreaker: circuitBreakerInstance }),
+      ...(cache && { cache }),
+      ...(executionContext && { executionContext }),
+      ...request
+    };
+    const requestStartTime = Date.now();
+    executed[index] = true;
+    try {
+      results[index] = await stableRequest<RequestDataType, ResponseDataType>(requestOptions);
+    } catch (e: any) {
+      results[index] = {
+        success: false,
+        error: e?.message || 'Request failed',
+        metrics: {
+          totalAttempts: 0,
+          successfulAttempts: 0,
+          failedAttempts: 0,
+          totalExecutionTime: Date.now() - requestStartTime,
+          averageAttemptTime: 0
+        }
+      };
+    }
+    if (stopOnFirstFailure && !results[index].success) {
+      stopped = true;
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (!stopped && nextIndex < requests.length) {
+      await runRequest(nextIndex++);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, requests.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  for (let index = 0; index < requests.length; index++) {
+    if (!executed[index]) {
+      results[index] = {
+        success: false,
+        error: `${formatLogContext(executionContext)}stable-request: Skipped after an earlier request in the batch failed.`
+      };
+    }
+  }
+
+  const totalExecutionTime = Date.now() - batchStartTime;
+  const executedResults = results.filter((_, index) => executed[index]);
+  const successfulRequests = executedResults.filter((result) => result.success).length;
+  const latencies = executedResults
+    .map((result) => result.metrics?.totalExecutionTime ?? 0)
+    .sort((a, b) => a - b);
+
+  const metrics: StableRequestBatchMetrics = {
+    totalRequests: requests.length,
+    successfulRequests,
+    failedRequests: executedResults.length - successfulRequests,
+    skippedRequests: requests.length - executedResults.length,
+    fallbackRequests: executedResults.filter((result) => result.fallbackUsed).length,
+    successRate: requests.length > 0 ? (successfulRequests / requests.length) * 100 : 0,
+    failureRate: requests.length > 0 ? ((requests.length - successfulRequests) / requests.length) * 100 : 0,
+    totalExecutionTime,
+    throughput: totalExecutionTime > 0 ? (executedResults.length / totalExecutionTime) * 1000 : executedResults.length,
+    averageLatency: latencies.length > 0 ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length : 0,
+    minLatency: latencies[0] ?? 0,
+    maxLatency: latencies[latencies.length - 1] ?? 0,
+    p50Latency: getPercentile(latencies, 50),
+    p95Latency: getPercentile(latencies, 95),
+    infrastructureMetrics: {
+      ...(circuitBreakerInstance instanceof CircuitBreaker && {
+        circuitBreaker: MetricsAggregator.extractCircuitBreakerMetrics(circuitBreakerInstance)
+      }),
+      ...(circuitBreakerInstance instanceof CircuitBreakerRegistry && {
+        circuitBreakerRegistry: MetricsAggregator.extractCircuitBreakerRegistryMetrics(circuitBreakerInstance)
+      }),
+      ...(cacheManager && { cache: MetricsAggregator.extractCacheMetrics(cacheManager) })
+    }
+  };
+
+  if (metricsGuardrails) {
+    metrics.validation = MetricsValidator.validateBatchMetrics(metrics, metricsGuardrails);
+  }
+
+  return {
+    success: successfulRequests === requests.length,
+    results,
+    metrics
+  };
+}
@@ -2,10 +2,14 @@ import { AxiosRequestConfig } from 'axios';
 
 import {
   RETRY_STRATEGIES,
+  RETRY_DELAY_SOURCES,
   RESPONSE_ERRORS,
+  REQUEST_METHODS,
   CircuitBreakerState
 } from '../enums/index.js';
 
+import { DEADLINE_FINAL_ATTEMPT_MARGIN_MS, HEDGEABLE_REQUEST_METHODS } from '../constants/index.js';
+
 import { 
   ERROR_LOG,
   PreExecutionHookOptions,
@@ -17,19 +21,32 @@ import {
 } from '../types/index.js';
 
 import {
+  Bulkhead,
+  BulkheadRejectedError,
   CircuitBreaker,
   CircuitBreakerOpenError,
+  CircuitBreakerRegistry,
+  DeadlineExceededError,
+  executeHedgedRequest,
+  executeSingleFlight,
   executeWithPersistence,
   formatLogContext,
   generateAxiosRequestConfig,
   getNewDelayTime,
-  getGlobalCacheManager,
+  getSharedBulkhead,
+  getSharedRateLimiter,
+  getSingleFlightKey,
   delay,
   reqFn,
+  resolveCacheManager,
+  resolveIdempotencyKey,
   safelyStringify,
   validateTrialModeProbabilities,
   MetricsAggregator,
-  MetricsValidator
+  MetricsValidator,
+  RateLimiter,
+  RateLimitExceededError,
+  resolveDeadline
 } from '../utilities/index.js';
 
 export async function stableRequest<RequestDataType = any, ResponseDataType = any>(
@@ -126,23 +143,92 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
       ),
     maxSerializableChars = 1000,
     finalErrorAnalyzer = ({ reqData, error, trialMode = { enabled: false } }) => false,
+    fallback,
     trialMode = { enabled: false },
     hookParams = {},
     cache,
+    cacheTags,
+    cacheRefresh = false,
     circuitBreaker,
+    rateLimiter,
+    bulkhead,
     jitter = 0,
-    statePersistence
+    respectRetryAfter = true,
+    retryPolicy,
+    deadlineMs,
+    deadline,
+    hedging,
+    idempotency,
+    statePersistence,
+    transport
   } = options;
   let attempts = givenAttempts;
-  const reqData: AxiosRequestConfig<RequestDataType> = generateAxiosRequestConfig<RequestDataType>(givenReqData);
+  let reqData: AxiosRequestConfig<RequestDataType>;
+  try {
+    reqData = generateAxiosRequestConfig<RequestDataType>(givenReqData);
+  } catch (e: any) {
+    if (trialMode.enabled) {
+      console.error(`${formatLogContext(executionContext)}stable-request: Final error:\n`, e.message);
+    }
+    if (throwOnFailedErrorAnalysis) {
+      throw e;
+    }
+    return {
+      success: false,
+      error: e.message || 'Invalid request data',
+      metrics: {
+        totalAttempts: 0,
+        successfulAttempts: 0,
+        failedAttempts: 0,
+        totalExecutionTime: 0,
+        averageAttemptTime: 0
+      }
+    };
+  }
+  const cacheManager = resolveCacheManager(cache);
+
+  if (options.singleFlight) {
+    const singleFlightKey = getSingleFlightKey(reqData, cacheManager, options);
+    if (singleFlightKey) {
+      const { result, coalesced } = await executeSingleFlight(
+        singleFlightKey,
+        () => stableRequest<RequestDataType, ResponseDataType>({
+          ...options,
+          singleFlight: false,
+          preExecution: { preExecutionHook: () => preExecutionResult, applyPreExecutionConfigOverride: false },
+          loadTransactionLogs: undefined,
+          transactionLogs
+        })
+      );
+      return {
+        ...result,
+        ...(result.metrics && { metrics: { ...result.metrics, coalesced } })
+      };
+    }
+  }
   
   const requestStartTime = Date.now();
+  const deadlineAt = resolveDeadline(deadlineMs, deadline, requestStartTime);
   const errorLogs: ERROR_LOG[] = [];
   const successfulAttemptsList: SUCCESSFUL_ATTEMPT_DATA<ResponseDataType>[] = [];
   let totalAttemptsMade = 0;
   let successfulAttemptsCount = 0;
+  let hedgedAttemptsCount = 0;
+  let winningAttemptIndex: number | undefined;
+  let idempotencyKey: string | undefined;
+  let resultFromCache = false;
+  let resultStale = false;
+  let resultFallback = false;
+  let attemptRetryPolicy = retryPolicy;
+  const hedgingEnabled = !!hedging?.enabled &&
+    (hedging.methods ?? HEDGEABLE_REQUEST_METHODS).includes(reqData.method as REQUEST_METHODS);
   
-  const buildResult = (success: boolean, data?: ResponseDataType | boolean, error?: string): STABLE_REQUEST_RESULT<ResponseDataType> => {
+  const buildResult = (
+    success: boolean,
+    data?: ResponseDataType | boolean,
+    error?: string,
+    errorType?: STABLE_REQUEST_RESULT['errorType']
+  ): STABLE_REQUEST_RESULT<ResponseDataType> => {
     const totalExecutionTime = Date.now() - requestStartTime;
     const failedAttemptsCount = totalAttemptsMade - successfulAttemptsCount;
     
@@ -150,7 +236,12 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
       success,
       ...(data !== undefined && { data }),
       ...(error && { error }),
-      ...(errorLogs.length > 0 && { errorLogs }),
+      ...(errorType && { errorType }),
+      ...(resultFromCache && { fromCache: true }),
+      ...(resultStale && { stale: true }),
+      ...(resultFallback && { fallbackUsed: true }),
+      ...(idempotencyKey && { idempotencyKey }),
+      ...(logAllErrors && errorLogs.length > 0 && { errorLogs }),
       ...(successfulAttemptsList.length > 0 && { successfulAttempts: successfulAttemptsList }),
       metrics: {
         totalAttempts: totalAttemptsMade,
@@ -158,9 +249,17 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
         failedAttempts: failedAttemptsCount,
         totalExecutionTime,
         averageAttemptTime: totalAttemptsMade > 0 ? totalExecutionTime / totalAttemptsMade : 0,
+        ...(hedgingEnabled && { hedgedAttempts: hedgedAttemptsCount }),
+        ...(winningAttemptIndex !== undefined && { winningAttemptIndex }),
+        ...(resultFallback && { fallbackUsed: true }),
         infrastructureMetrics: {
           ...(circuitBreakerInstance && { circuitBreaker: MetricsAggregator.extractCircuitBreakerMetrics(circuitBreakerInstance) }),
-          ...(cache && getGlobalCacheManager() && { cache: MetricsAggregator.extractCacheMetrics(getGlobalCacheManager()) })
+          ...(circuitBreaker instanceof CircuitBreakerRegistry && {
+            circuitBreakerRegistry: MetricsAggregator.extractCircuitBreakerRegistryMetrics(circuitBreaker)
+          }),
+          ...(rateLimiterInstance && { rateLimiter: MetricsAggregator.extractRateLimiterMetrics(rateLimiterInstance) }),
+          ...(bulkheadInstance && { bulkhead: MetricsAggregator.extractBulkheadMetrics(bulkheadInstance) }),
+          ...(cacheManager && { cache: MetricsAggregator.extractCacheMetrics(cacheManager) })
         }
       }
     };
@@ -172,17 +271,212 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
       );
     }
     
+    const bulkheadMetrics = result.metrics?.infrastructureMetrics?.bulkhead;
+    if (options.metricsGuardrails?.infrastructure?.bulkhead && bulkheadMetrics) {
+      bulkheadMetrics.validation = MetricsValidator.validateBulkheadMetrics(
+        bulkheadMetrics,
+        options.metricsGuardrails
+      );
+    }
+    
     return result;
   };
   
+  const serveStaleOnError = (): STABLE_REQUEST_RESULT<ResponseDataType> | null => {
+    const stale = cacheManager && !cacheRefresh ? cacheManager.getStale<ResponseDataType>(reqData) : null;
+    if (!stale) {
+      return null;
+    }
+    if (trialMode.enabled) {
+      console.info(
+        `${formatLogContext(executionContext)}stable-request: All attempts failed, serving cached response:\n`,
+        safelyStringify(stale.data as Record<string, any>, maxSerializableChars)
+      );
+    }
+    resultFromCache = true;
+    resultStale = !!stale.stale;
+    return buildResult(true, resReq ? stale.data : true);
+  };
+  
+  const serveFallback = async (
+    error: any,
+    errorMessage: string,
+    errorType?: STABLE_REQUEST_RESULT['errorType']
+  ): Promise<STABLE_REQUEST_RESULT<ResponseDataType> | null> => {
+    if (!fallback) {
+      return null;
+    }
+    let fallbackData: ResponseDataType | undefined;
+    const cached = fallback.useCachedResponse && cacheManager ? cacheManager.peek<ResponseDataType>(reqData) : null;
+    if (cached) {
+      fallbackData = cached.data;
+      resultFromCache = true;
+      resultStale = cached.expiresAt <= Date.now();
+    } else if (fallback.handler) {
+      try {
+        fallbackData = await executeWithPersistence<ResponseDataType | undefined>(
+          fallback.handler,
+          {
+            reqData,
+            error,
+            errorType,
+            errorLogs,
+            trialMode,
+            params: hookParams?.fallbackParams,
+            preExecutionResult,
+            commonBuffer,
+            executionContext,
+            transactionLogs
+          },
+          statePersistence,
+          executionContext || {},
+          commonBuffer
+        );
+        if (fallbackData === undefined) {
+          throw new Error('The fallback handler returned no value.');
+        }
+      } catch (e: any) {
+        if (trialMode.enabled || logAllErrors) {
+          console.error(
+            `${formatLogContext(executionContext)}stable-request: Unable to produce a fallback response. Error message provided by your fallback handler: ${safelyStringify(
+              e.message,
+              maxSerializableChars
+            )}`
+          );
+        }
+        if (fallback.value === undefined) {
+          return null;
+        }
+        fallbackData = fallback.value;
+      }
+    } else if (fallback.value !== undefined) {
+      fallbackData = fallback.value;
+    } else {
+      return null;
+    }
+    if (trialMode.enabled) {
+      console.info(
+        `${formatLogContext(executionContext)}stable-request: Request failed, serving fallback response:\n`,
+        safelyStringify(fallbackData as Record<string, any>, maxSerializableChars)
+      );
+    }
+    resultFallback = true;
+    return buildResult(true, resReq ? fallbackData : true, errorMessage, errorType);
+  };
+
+  const reportError = async (errorLog: ERROR_LOG) => {
+    errorLogs.push(errorLog);
+    if (!logAllErrors) {
+      return;
+    }
+    try {
+      await executeWithPersistence<void>(
+        handleErrors,
+        {
+          reqData,
+          errorLog,
+          maxSerializableChars,
+          params: hookParams?.handleErrorsParams,
+          preExecutionResult,
+          commonBuffer,
+          executionContext,
+          transactionLogs
+        },
+        statePersistence,
+        executionContext || {},
+        commonBuffer
+      );
+    } catch (e: any) {
+      console.error(
+        `${formatLogContext(executionContext)}stable-request: Unable to report errors due to issues with error handler! Error message provided by your handleErrors: ${safelyStringify(
+          e.message,
+          maxSerializableChars
+        )}`
+      );
+    }
+  };
+
+  const exceedDeadline = async (attempt: string, statusCode = 0): Promise<never> => {
+    const message = `${formatLogContext(executionContext)}stable-request: Deadline exceeded after ${Date.now() - requestStartTime}ms at attempt ${attempt}. No further retries.`;
+    await reportError({
+      timestamp: new Date().toISOString(),
+      attempt,
+      error: message,
+      type: RESPONSE_ERRORS.DEADLINE_EXCEEDED,
+      isRetryable: false,
+      executionTime: Date.now() - requestStartTime,
+      statusCode
+    });
+    throw new DeadlineExceededError(message);
+  };
+  
   let circuitBreakerInstance: CircuitBreaker | null = null;
   if (circuitBreaker) {
-    circuitBreakerInstance = circuitBreaker instanceof CircuitBreaker
-      ? circuitBreaker
-      : new CircuitBreaker(circuitBreaker);
+    circuitBreakerInstance = circuitBreaker instanceof CircuitBreakerRegistry
+      ? circuitBreaker.getForRequest(reqData)
+      : circuitBreaker instanceof CircuitBreaker
+        ? circuitBreaker
+        : new CircuitBreaker(circuitBreaker);
   }
+  let rateLimiterInstance: RateLimiter | null = null;
+  if (rateLimiter) {
+    rateLimiterInstance = rateLimiter instanceof RateLimiter
+      ? rateLimiter
+      : getSharedRateLimiter(rateLimiter);
+  }
+  let bulkheadInstance: Bulkhead | null = null;
+  if (bulkhead) {
+    bulkheadInstance = bulkhead instanceof Bulkhead
+      ? bulkhead
+      : getSharedBulkhead(bulkhead);
+  }
+  const bulkheadKey = bulkheadInstance ? bulkheadInstance.resolveKey(reqData) : '';
+
+  let lastAttemptDurationMs: number | undefined;
+  const recordRequestOutcome = (success: boolean): void => {
+    if (!circuitBreakerInstance || circuitBreakerInstance.getState().config.trackIndividualAttempts) {
+      return;
+    }
+    if (success) {
+      circuitBreakerInstance.recordSuccess(lastAttemptDurationMs);
+    } else {
+      circuitBreakerInstance.recordFailure(lastAttemptDurationMs);
+    }
+  };
+
+  const executeAttempt = async (
+    attemptReqData: AxiosRequestConfig<RequestDataType>,
+    currentAttempt: number,
+    acquireRateLimit = true
+  ): Promise<ReqFnResponse<ResponseDataType>> => {
+    if (rateLimiterInstance && acquireRateLimit) {
+      await rateLimiterInstance.acquire(deadlineAt !== null ? Math.max(0, deadlineAt - Date.now()) : undefined);
+    }
+    const release = bulkheadInstance
+      ? await bulkheadInstance.acquire(bulkheadKey, deadlineAt !== null ? Math.max(0, deadlineAt - Date.now()) : undefined)
+      : undefined;
+    try {
+      return await reqFn<RequestDataType, ResponseDataType>(attemptReqData, resReq, maxSerializableChars, trialMode, cacheManager ?? undefined, executionContext, transport, attemptRetryPolicy, currentAttempt, cacheTags, cacheRefresh);
+    } finally {
+      release?.();
+    }
+  };
   try {
     validateTrialModeProbabilities(trialMode);
+    const resolvedIdempotencyKey = await resolveIdempotencyKey(reqData, idempotency, commonBuffer, executionContext);
+    if (resolvedIdempotencyKey) {
+      const { headerName, key } = resolvedIdempotencyKey;
+      idempotencyKey = key;
+      reqData.headers = {
+        ...Object.fromEntries(
+          Object.entries(reqData.headers ?? {}).filter(([header]) => header.toLowerCase() !== headerName.toLowerCase())
+        ),
+        [headerName]: key
+      };
+      if (retryPolicy && !retryPolicy.idempotencyKeyHeader) {
+        attemptRetryPolicy = { ...retryPolicy, idempotencyKeyHeader: headerName };
+      }
+    }
     let res: ReqFnResponse = {
       ok: false,
       isRetryable: true,
@@ -193,9 +487,18 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
     const maxAttempts = attempts;
     let lastSuccessfulAttemptData: ResponseDataType | undefined = undefined;
     let hadAtLeastOneSuccess = false;
+    let previousRetryDelay = 0;
+    let deadlineReached = false;
     do {
       attempts--;
       const currentAttempt = maxAttempts - attempts;
+      const remainingTime = deadlineAt !== null ? deadlineAt - Date.now() : null;
+      if (remainingTime !== null && remainingTime <= 0) {
+        if (performAllAttempts && hadAtLeastOneSuccess) {
+          break;
+        }
+        await exceedDeadline(`${currentAttempt}/${maxAttempts}`, res.statusCode);
+      }
       totalAttemptsMade = currentAttempt;
       if (circuitBreakerInstance) {
         const cbConfig = circuitBreakerInstance.getState().config;
@@ -209,7 +512,31 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
         }
       }
       try {
-        res = await reqFn<RequestDataType, ResponseDataType>(reqData, resReq, maxSerializableChars, trialMode, cache, executionContext);
+        const attemptReqData: AxiosRequestConfig<RequestDataType> = remainingTime !== null
+          ? { ...reqData, timeout: Math.max(1, Math.min(reqData.timeout || remainingTime, remainingTime)) }
+          : reqData;
+        if (hedgingEnabled) {
+          const hedged = await executeHedgedRequest<ResponseDataType>(
+            (signal, hedgeIndex) => executeAttempt({ ...attemptReqData, signal }, currentAttempt, hedgeIndex === 0),
+            hedging!.hedgeDelayMs,
+            hedging!.maxHedgedRequests,
+            reqData.signal as AbortController['signal'] | undefined,
+            () => (!circuitBreakerInstance || circuitBreakerInstance.isCallPermitted()) &&
+              (!bulkheadInstance || bulkheadInstance.hasCapacity(bulkheadKey)) &&
+              (!rateLimiterInstance || rateLimiterInstance.tryAcquire()),
+            () => {
+              if (circuitBreakerInstance && circuitBreakerInstance.getState().config.trackIndividualAttempts) {
+                circuitBreakerInstance.recordAttemptFailure();
+              }
+            }
+          );
+          res = hedged.response;
+          hedgedAttemptsCount += hedged.hedgedAttempts;
+          winningAttemptIndex = hedged.response.ok ? hedged.winningIndex : undefined;
+        } else {
+          res = await executeAttempt(attemptReqData, currentAttempt);
+        }
+        lastAttemptDurationMs = res.executionTime;
         if (res.fromCache && res.ok) {
           if (trialMode.enabled) {
             console.info(
@@ -217,11 +544,17 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
               safelyStringify(res?.data, maxSerializableChars)
             );
           }
+          resultFromCache = true;
+          resultStale = !!res.stale;
           return buildResult(true, resReq ? res?.data! : true);
         }
         
       } catch(attemptError: any) {
-        if (attemptError instanceof CircuitBreakerOpenError) {
+        if (
+          attemptError instanceof CircuitBreakerOpenError ||
+          attemptError instanceof RateLimitExceededError ||
+          attemptError instanceof BulkheadRejectedError
+        ) {
           throw attemptError;
         }
         if (circuitBreakerInstance && circuitBreakerInstance.getState().config.trackIndividualAttempts) {
@@ -273,9 +606,9 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
       
       if (circuitBreakerInstance && circuitBreakerInstance.getState().config.trackIndividualAttempts) {
         if (res.ok && !performNextAttempt) {
-          circuitBreakerInstance.recordAttemptSuccess();
+          circuitBreakerInstance.recordAttemptSuccess(res.executionTime);
         } else if (!res.ok || performNextAttempt) {
-          circuitBreakerInstance.recordAttemptFailure();
+          circuitBreakerInstance.recordAttemptFailure(res.executionTime);
           if (circuitBreakerInstance.getState().state === CircuitBreakerState.OPEN) {
             throw new CircuitBreakerOpenError(
               `${formatLogContext(executionContext)}stable-request: Circuit breaker opened after attempt ${currentAttempt}/${maxAttempts}. Blocking further retries.`
@@ -284,7 +617,33 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
         }
       }
       
-      if ((!res.ok || (res.ok && performNextAttempt)) && logAllErrors) {
+      let shouldRetry =
+        attempts > 0 &&
+        ((!originalResOk && res.isRetryable) ||
+          (originalResOk && performNextAttempt) ||
+          performAllAttempts);
+      let retryDelay = 0;
+      let retryDelaySource = RETRY_DELAY_SOURCES.STRATEGY;
+      if (shouldRetry) {
+        retryDelay = getNewDelayTime(retryStrategy, wait, currentAttempt, jitter, previousRetryDelay, res);
+        if (respectRetryAfter && res.retryAfter !== undefined && res.retryAfterSource && res.retryAfter > retryDelay) {
+          retryDelay = res.retryAfter;
+          retryDelaySource = res.retryAfterSource;
+        }
+        retryDelay = Math.min(retryDelay, maxAllowedWait);
+        previousRetryDelay = retryDelay;
+      }
+      if (deadlineAt !== null && shouldRetry) {
+        const remainingBudget = deadlineAt - Date.now();
+        if (remainingBudget <= DEADLINE_FINAL_ATTEMPT_MARGIN_MS) {
+          deadlineReached = true;
+          shouldRetry = false;
+        } else if (retryDelay > remainingBudget - DEADLINE_FINAL_ATTEMPT_MARGIN_MS) {
+          retryDelay = remainingBudget - DEADLINE_FINAL_ATTEMPT_MARGIN_MS;
+        }
+      }
+
+      if (!res.ok || (res.ok && performNextAttempt)) {
         const errorLog: ERROR_LOG = {
           timestamp: res.timestamp,
           attempt: `${currentAttempt}/${maxAttempts}`,
@@ -299,34 +658,10 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
             : RESPONSE_ERRORS.INVALID_CONTENT,
           isRetryable: res.isRetryable,
           executionTime: res.executionTime,
-          statusCode: res.statusCode
+          statusCode: res.statusCode,
+          ...(shouldRetry && { retryDelay, retryDelaySource })
         };
-        errorLogs.push(errorLog);
-        try {
-          await executeWithPersistence<void>(
-            handleErrors,
-            {
-              reqData,
-              errorLog,
-              maxSerializableChars,
-              params: hookParams?.handleErrorsParams,
-              preExecutionResult,
-              commonBuffer,
-              executionContext,
-              transactionLogs
-            },
-            statePersistence,
-            executionContext || {},
-            commonBuffer
-          );
-        } catch (e: any) {
-          console.error(
-            `${formatLogContext(executionContext)}stable-request: Unable to report errors due to issues with error handler! Error message provided by your handleErrors: ${safelyStringify(
-              e.message,
-              maxSerializableChars
-            )}`
-          );
-        }
+        await reportError(errorLog);
       }
       if (res.ok && !performNextAttempt) {
         hadAtLeastOneSuccess = true;
@@ -371,20 +706,20 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
       if (performNextAttempt && res.isRetryable) {
         res.ok = false;
       }
-      if (
-        attempts > 0 &&
-        ((!originalResOk && res.isRetryable) ||
-          (originalResOk && performNextAttempt) ||
-          performAllAttempts)
-      ) {
-        await delay(getNewDelayTime(retryStrategy, wait, currentAttempt, jitter), maxAllowedWait);
+      if (deadlineReached && !res.ok && !(performAllAttempts && hadAtLeastOneSuccess)) {
+        await exceedDeadline(`${currentAttempt}/${maxAttempts}`, res.statusCode);
+      }
+      if (shouldRetry) {
+        await delay(retryDelay, maxAllowedWait);
       }
     } while (
+      !deadlineReached &&
       attempts > 0 &&
       ((res.isRetryable && !res.ok) || performAllAttempts)
     );
     
     if (performAllAttempts && hadAtLeastOneSuccess) {
+      recordRequestOutcome(true);
       if (trialMode.enabled) {
         console.info(
           `${formatLogContext(executionContext)}stable-request: Final response (performAllAttempts mode):\n`,
@@ -393,6 +728,7 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
       }
       return buildResult(true, resReq ? lastSuccessfulAttemptData! : true);
     } else if (res.ok) {
+      recordRequestOutcome(true);
       if (trialMode.enabled) {
         const finalResponse = res?.data ?? lastSuccessfulAttemptData;
         console.info(
@@ -402,6 +738,11 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
       }
       return buildResult(true, resReq ? (res?.data ?? lastSuccessfulAttemptData!) : true);
     } else {
+      recordRequestOutcome(false);
+      const staleResult = serveStaleOnError();
+      if (staleResult) {
+        return staleResult;
+      }
       const finalError = new Error(
         safelyStringify(
           {
@@ -439,6 +780,10 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
         );
       }
 
+      const fallbackResult = await serveFallback(finalError, res?.error || 'Request failed');
+      if (fallbackResult) {
+        return fallbackResult;
+      }
       if (throwOnFailedErrorAnalysis && !errorAnalysisResult) {
         throw finalError;
       }
@@ -448,6 +793,23 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
     if (trialMode.enabled) {
       console.error(`${formatLogContext(executionContext)}stable-request: Final error:\n`, e.message);
     }
+    if (
+      totalAttemptsMade > 0 &&
+      !(e instanceof CircuitBreakerOpenError || e instanceof RateLimitExceededError || e instanceof BulkheadRejectedError)
+    ) {
+      recordRequestOutcome(false);
+    }
+    const staleResult = serveStaleOnError();
+    if (staleResult) {
+      return staleResult;
+    }
+    const errorType = e instanceof DeadlineExceededError
+      ? RESPONSE_ERRORS.DEADLINE_EXCEEDED
+      : e instanceof RateLimitExceededError
+        ? RESPONSE_ERRORS.RATE_LIMITED
+        : e instanceof BulkheadRejectedError
+          ? RESPONSE_ERRORS.BULKHEAD_REJECTED
+          : undefined;
     let errorAnalysisResult = false;
     try {
       errorAnalysisResult = await executeWithPersistence<boolean>(
@@ -474,13 +836,17 @@ export async function stableRequest<RequestDataType = any, ResponseDataType = an
         )}`
       );
     }
+    const fallbackResult = await serveFallback(e, e.message || 'Request failed', errorType);
+    if (fallbackResult) {
+      return fallbackResult;
+    }
     if(!errorAnalysisResult) {
       if (throwOnFailedErrorAnalysis) {
         throw e;
       }
-      return buildResult(false, undefined, e.message || 'Request failed');
+      return buildResult(false, undefined, e.message || 'Request failed', errorType);
     } else {
-      return buildResult(false, undefined, e.message || 'Request failed');
+      return buildResult(false, undefined, e.message || 'Request failed', errorType);
     }
   }
 }
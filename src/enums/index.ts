@@ -4,6 +4,17 @@ export enum CircuitBreakerState {
   HALF_OPEN = 'HALF_OPEN'
 }
 
+export enum CircuitBreakerWindowType {
+  COUNT_BASED = 'count-based',
+  TIME_BASED = 'time-based'
+}
+
+export enum CircuitBreakerKeyStrategy {
+  GLOBAL = 'global',
+  HOST = 'host',
+  ROUTE = 'route'
+}
+
 export enum INVALID_AXIOS_RESPONSES {
   RESET = 'ECONNRESET',
   TIMEDOUT = 'ETIMEDOUT',
@@ -18,17 +29,33 @@ export enum REQUEST_METHODS {
   DELETE = 'DELETE',
   PATCH = 'PATCH',
   PUT = 'PUT',
+  HEAD = 'HEAD',
+  OPTIONS = 'OPTIONS',
 }
 
 export enum RESPONSE_ERRORS {
   HTTP_ERROR = 'HTTP_ERROR',
   INVALID_CONTENT = 'INVALID_CONTENT',
+  DEADLINE_EXCEEDED = 'DEADLINE_EXCEEDED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  BULKHEAD_REJECTED = 'BULKHEAD_REJECTED',
 }
 
 export enum RETRY_STRATEGIES {
   FIXED = 'fixed',
   LINEAR = 'linear',
   EXPONENTIAL = 'exponential',
+  FULL_JITTER = 'full_jitter',
+  EQUAL_JITTER = 'equal_jitter',
+  DECORRELATED_JITTER = 'decorrelated_jitter',
+  FIBONACCI = 'fibonacci',
+}
+
+export enum QUERY_ARRAY_FORMATS {
+  BRACKETS = 'brackets',
+  INDICES = 'indices',
+  REPEAT = 'repeat',
+  COMMA = 'comma',
 }
 
 export enum VALID_REQUEST_PROTOCOLS {
@@ -61,5 +88,40 @@ export enum SkipReason {
 
 export enum InfrastructurePersistenceOperationTypes {
   LOAD = 'load',
-  STORE = 'store'
+  STORE = 'store',
+  COMPARE_AND_SET = 'compare-and-set'
+}
+
+export enum RETRY_DELAY_SOURCES {
+  STRATEGY = 'strategy',
+  RETRY_AFTER = 'retry-after',
+  X_RATELIMIT_RESET = 'x-ratelimit-reset',
+  RATELIMIT_RESET = 'ratelimit-reset'
+}
+
+export enum IDEMPOTENCY_KEY_STRATEGIES {
+  UUID = 'uuid',
+  BODY_HASH = 'body-hash'
+}
+
+export enum RateLimiterMode {
+  TOKEN_BUCKET = 'token-bucket',
+  SLIDING_WINDOW = 'sliding-window'
+}
+
+export enum RateLimitExceededBehavior {
+  QUEUE = 'queue',
+  REJECT = 'reject'
+}
+
+export enum CacheEvictionPolicy {
+  LRU = 'lru',
+  LFU = 'lfu',
+  TTL = 'ttl'
+}
+
+export enum BulkheadKeyStrategy {
+  GLOBAL = 'global',
+  HOST = 'host',
+  ROUTE = 'route'
 }
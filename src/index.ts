@@ -1,5 +1,5 @@
 // Core exports
-export { stableRequest, StableBuffer } from './core/index.js';
+export { stableRequest, stableRequestBatch, StableBuffer, CacheWarmer } from './core/index.js';
 
 // Type exports
 export type {
@@ -8,6 +8,9 @@ export type {
   STABLE_REQUEST_RESULT,
   StableRequestMetrics,
   StableRequestInfrastructureMetrics,
+  STABLE_REQUEST_BATCH_OPTIONS,
+  STABLE_REQUEST_BATCH_RESULT,
+  StableRequestBatchMetrics,
   
   // StableBuffer types
   StableBufferState,
@@ -25,26 +28,52 @@ export type {
   
   // Request types
   REQUEST_DATA,
+  QuerySerializationOptions,
   REQUEST_METHOD_TYPES,
   RETRY_STRATEGY_TYPES,
+  RetryStrategyFunction,
+  RetryPolicy,
+  RetryPolicyHookOptions,
+  HedgingConfig,
+  IdempotencyConfig,
+  IDEMPOTENCY_KEY_STRATEGY_TYPES,
   VALID_REQUEST_PROTOCOL_TYPES,
   ERROR_LOG,
   SUCCESSFUL_ATTEMPT_DATA,
   ReqFnResponse,
   
+  // Transport types
+  Transport,
+  TransportResponse,
+  TransportError,
+  FetchTransportOptions,
+  NodeHttpTransportOptions,
+  
   // Hook types
   HookParams,
   PreExecutionHookOptions,
   RequestPreExecutionOptions,
   ResponseAnalysisHookOptions,
   FinalErrorAnalysisHookOptions,
+  FallbackHookOptions,
+  FallbackConfig,
   HandleErrorHookOptions,
   HandleSuccessfulAttemptDataHookOptions,
   
   // Configuration types
   CacheConfig,
+  CacheWarmerConfig,
   CachedResponse,
   CircuitBreakerConfig,
+  CircuitBreakerRegistryConfig,
+  CircuitBreakerEvent,
+  CircuitBreakerStateChangeEvent,
+  CircuitBreakerCallEvent,
+  CircuitBreakerEventMap,
+  CircuitBreakerEventName,
+  CircuitBreakerEventListener,
+  RateLimiterConfig,
+  BulkheadConfig,
   TRIAL_MODE_OPTIONS,
   StatePersistenceConfig,
   StatePersistenceOptions,
@@ -57,6 +86,7 @@ export type {
   MetricsGuardrailsInfrastructure,
   MetricsGuardrailsCircuitBreaker,
   MetricsGuardrailsCache,
+  MetricsGuardrailsBulkhead,
   MetricsGuardrailsCommon,
   MetricGuardrail,
   MetricAnomaly,
@@ -64,24 +94,42 @@ export type {
   
   // Dashboard metrics
   CircuitBreakerDashboardMetrics,
+  CircuitBreakerRegistryDashboardMetrics,
   CacheDashboardMetrics,
+  RateLimiterDashboardMetrics,
+  BulkheadDashboardMetrics,
   
   // Persistence types
   InfrastructurePersistence,
   InfrastructurePersistenceOperation,
   InfrastructurePersistenceOperationType,
   InfrastructurePersistenceTransactionResult,
+  InfrastructurePersistenceVersionedState,
   CircuitBreakerPersistedState,
+  CircuitBreakerWindowBucket,
+  CircuitBreakerWindowState,
   CacheManagerPersistedState,
+  CacheManagerPersistence,
+  CachePersistenceOperation,
+  RateLimiterPersistedState,
 } from './types/index.js';
 
 // Enum exports
 export {
   RETRY_STRATEGIES,
+  RETRY_DELAY_SOURCES,
+  IDEMPOTENCY_KEY_STRATEGIES,
   REQUEST_METHODS,
+  QUERY_ARRAY_FORMATS,
   RESPONSE_ERRORS,
   VALID_REQUEST_PROTOCOLS,
   CircuitBreakerState,
+  CircuitBreakerWindowType,
+  CircuitBreakerKeyStrategy,
+  RateLimiterMode,
+  RateLimitExceededBehavior,
+  BulkheadKeyStrategy,
+  CacheEvictionPolicy,
   AnomalySeverity,
   ViolationType,
   PersistenceStage,
@@ -95,6 +143,7 @@ export {
   // Cache management
   CacheManager,
   getGlobalCacheManager,
+  getNamespacedCacheManager,
   resetGlobalCacheManager,
   
   // Circuit breaker
@@ -102,6 +151,29 @@ export {
   CircuitBreakerOpenError,
   getGlobalCircuitBreaker,
   resetGlobalCircuitBreaker,
+  CircuitBreakerRegistry,
+  
+  // Rate limiting
+  RateLimiter,
+  RateLimitExceededError,
+  getSharedRateLimiter,
+  resetSharedRateLimiters,
+  
+  // Bulkhead
+  Bulkhead,
+  BulkheadRejectedError,
+  getSharedBulkhead,
+  resetSharedBulkheads,
+  
+  // Transports
+  axiosTransport,
+  createFetchTransport,
+  fetchTransport,
+  createNodeHttpTransport,
+  nodeHttpTransport,
+  
+  // Deadlines
+  DeadlineExceededError,
   
   // Metrics
   MetricsAggregator,
@@ -111,12 +183,15 @@ export {
   isStableBuffer,
   withBuffer,
   replayStableBufferTransactions,
+  replayIdempotencyKey,
   
   // Infrastructure persistence
   InfrastructurePersistenceCoordinator,
+  InMemoryInfrastructurePersistence,
   
   // Helpers
   delay,
+  getRetryAfterDelay,
   formatLogContext,
   safelyStringify,
 } from './utilities/index.js';
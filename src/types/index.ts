@@ -4,16 +4,25 @@ import {
   REQUEST_METHODS,
   RESPONSE_ERRORS, 
   RETRY_STRATEGIES,
+  RETRY_DELAY_SOURCES,
+  IDEMPOTENCY_KEY_STRATEGIES,
+  QUERY_ARRAY_FORMATS,
   VALID_REQUEST_PROTOCOLS,
   AnomalySeverity,
   ViolationType,
   PersistenceStage,
   CircuitBreakerState,
+  CircuitBreakerWindowType,
+  CircuitBreakerKeyStrategy,
   SkipReason,
-  InfrastructurePersistenceOperationTypes
+  InfrastructurePersistenceOperationTypes,
+  RateLimiterMode,
+  RateLimitExceededBehavior,
+  BulkheadKeyStrategy,
+  CacheEvictionPolicy
 } from '../enums/index.js';
 
-import { CircuitBreaker } from '../utilities/index.js';
+import { Bulkhead, CacheManager, CircuitBreaker, CircuitBreakerRegistry, RateLimiter } from '../utilities/index.js';
 
 export type CreateHash = (algorithm: string) => { update: (data: string) => { digest: (encoding: 'hex') => string } };
 export type NodeCryptoLike = { createHash?: CreateHash };
@@ -47,9 +56,18 @@ export interface MetricsGuardrailsCache {
   evictionRate?: MetricGuardrail;
 }
 
+export interface MetricsGuardrailsBulkhead {
+  activeRequests?: MetricGuardrail;
+  queuedRequests?: MetricGuardrail;
+  rejectedRequests?: MetricGuardrail;
+  rejectionRate?: MetricGuardrail;
+  utilizationPercentage?: MetricGuardrail;
+}
+
 export interface MetricsGuardrailsInfrastructure {
   circuitBreaker?: MetricsGuardrailsCircuitBreaker;
   cache?: MetricsGuardrailsCache;
+  bulkhead?: MetricsGuardrailsBulkhead;
 }
 
 export interface MetricsGuardrailsCommon {
@@ -172,9 +190,16 @@ export interface ERROR_LOG {
   error: string;
   type: RESPONSE_ERROR_TYPES;
   isRetryable: boolean;
+  retryDelay?: number;
+  retryDelaySource?: RETRY_DELAY_SOURCES;
 }
 
-type RESPONSE_ERROR_TYPES = RESPONSE_ERRORS.HTTP_ERROR | RESPONSE_ERRORS.INVALID_CONTENT;
+type RESPONSE_ERROR_TYPES =
+  | RESPONSE_ERRORS.HTTP_ERROR
+  | RESPONSE_ERRORS.INVALID_CONTENT
+  | RESPONSE_ERRORS.DEADLINE_EXCEEDED
+  | RESPONSE_ERRORS.RATE_LIMITED
+  | RESPONSE_ERRORS.BULKHEAD_REJECTED;
 
 export interface ReqFnResponse<ResponseDataType = any> {
   ok: boolean;
@@ -185,6 +210,79 @@ export interface ReqFnResponse<ResponseDataType = any> {
   statusCode: number;
   data?: ResponseDataType | { trialMode: TRIAL_MODE_OPTIONS };
   fromCache?: boolean;
+  stale?: boolean;
+  retryAfter?: number;
+  retryAfterSource?: RETRY_DELAY_SOURCES;
+}
+
+export interface TransportError {
+  message: string;
+  code?: string;
+  isCancelled?: boolean;
+  isTimeout?: boolean;
+  cause?: unknown;
+}
+
+export interface TransportResponse<ResponseDataType = any> {
+  status: number;
+  statusText: string;
+  headers: Record<string, any>;
+  data?: ResponseDataType;
+  error?: TransportError;
+}
+
+export interface Transport {
+  name?: string;
+  request<RequestDataType = any, ResponseDataType = any>(
+    reqData: AxiosRequestConfig<RequestDataType>
+  ): Promise<TransportResponse<ResponseDataType>>;
+}
+
+export interface RetryPolicyHookOptions<RequestDataType = any> {
+  reqData?: AxiosRequestConfig<RequestDataType>;
+  statusCode: number;
+  error?: TransportError;
+  attempt: number;
+  isRetryable: boolean;
+}
+
+export interface RetryPolicy<RequestDataType = any> {
+  retryableStatusCodes?: number[];
+  retryableErrorCodes?: string[];
+  retryableMethods?: REQUEST_METHODS[];
+  idempotencyKeyHeader?: string;
+  shouldRetry?: (options: RetryPolicyHookOptions<RequestDataType>) => boolean;
+}
+
+export type IDEMPOTENCY_KEY_STRATEGY_TYPES =
+  | IDEMPOTENCY_KEY_STRATEGIES.UUID
+  | IDEMPOTENCY_KEY_STRATEGIES.BODY_HASH;
+
+export interface IdempotencyConfig<RequestDataType = any> {
+  enabled: boolean;
+  headerName?: string;
+  keyStrategy?: IDEMPOTENCY_KEY_STRATEGY_TYPES;
+  key?: string | ((reqData: AxiosRequestConfig<RequestDataType>) => string);
+  methods?: REQUEST_METHODS[];
+  bufferKey?: string;
+}
+
+export interface HedgingConfig {
+  enabled: boolean;
+  hedgeDelayMs: number;
+  maxHedgedRequests?: number;
+  methods?: REQUEST_METHODS[];
+}
+
+export interface FetchTransportOptions {
+  fetch?: typeof fetch;
+  init?: Omit<RequestInit, 'method' | 'headers' | 'body' | 'signal'>;
+}
+
+export interface NodeHttpTransportOptions {
+  agent?: any;
+  httpAgent?: any;
+  httpsAgent?: any;
 }
 
 export type REQUEST_METHOD_TYPES =
@@ -192,26 +290,51 @@ export type REQUEST_METHOD_TYPES =
   | REQUEST_METHODS.POST
   | REQUEST_METHODS.DELETE
   | REQUEST_METHODS.PATCH
-  | REQUEST_METHODS.PUT;
+  | REQUEST_METHODS.PUT
+  | REQUEST_METHODS.HEAD
+  | REQUEST_METHODS.OPTIONS;
 
 export type VALID_REQUEST_PROTOCOL_TYPES =
   | VALID_REQUEST_PROTOCOLS.HTTP
   | VALID_REQUEST_PROTOCOLS.HTTPS;
 
+export interface QuerySerializationOptions {
+  arrayFormat?: QUERY_ARRAY_FORMATS;
+  encode?: boolean;
+  skipNulls?: boolean;
+  serializer?: (params: Record<string, any>) => string;
+}
+
 export interface REQUEST_DATA<RequestDataType = any> {
-  hostname: string;
+  hostname?: string;
+  url?: string;
   protocol?: VALID_REQUEST_PROTOCOL_TYPES;
   method?: REQUEST_METHOD_TYPES;
   path?: `/${string}`;
+  pathParams?: Record<string, string | number | boolean>;
   port?: number;
   headers?: Record<string, any>;
   body?: RequestDataType;
   query?: Record<string, any>;
+  querySerialization?: QuerySerializationOptions;
   timeout?: number;
   signal?: AbortSignal;
 }
 
-export type RETRY_STRATEGY_TYPES = RETRY_STRATEGIES.FIXED | RETRY_STRATEGIES.LINEAR | RETRY_STRATEGIES.EXPONENTIAL;
+export type RETRY_STRATEGY_TYPES =
+  | RETRY_STRATEGIES.FIXED
+  | RETRY_STRATEGIES.LINEAR
+  | RETRY_STRATEGIES.EXPONENTIAL
+  | RETRY_STRATEGIES.FULL_JITTER
+  | RETRY_STRATEGIES.EQUAL_JITTER
+  | RETRY_STRATEGIES.DECORRELATED_JITTER
+  | RETRY_STRATEGIES.FIBONACCI;
+
+export type RetryStrategyFunction = (
+  attempt: number,
+  previousDelay: number,
+  lastResponse?: ReqFnResponse
+) => number;
 
 interface ObservabilityHooksOptions<RequestDataType = any> {
   reqData: AxiosRequestConfig<RequestDataType>;
@@ -240,6 +363,18 @@ export interface FinalErrorAnalysisHookOptions<RequestDataType = any> extends An
   error: any
 }
 
+export interface FallbackHookOptions<RequestDataType = any> extends AnalysisHookOptions<RequestDataType> {
+  error: any;
+  errorType?: RESPONSE_ERROR_TYPES;
+  errorLogs: ERROR_LOG[];
+}
+
+export interface FallbackConfig<RequestDataType = any, ResponseDataType = any> {
+  useCachedResponse?: boolean;
+  handler?: (options: FallbackHookOptions<RequestDataType>) => ResponseDataType | Promise<ResponseDataType>;
+  value?: ResponseDataType;
+}
+
 export interface HandleErrorHookOptions<RequestDataType = any> extends ObservabilityHooksOptions<RequestDataType> {
   errorLog: ERROR_LOG
 }
@@ -253,6 +388,7 @@ export interface HookParams {
   handleSuccessfulAttemptDataParams?: any;
   handleErrorsParams?: any;
   finalErrorAnalyzerParams?: any;
+  fallbackParams?: any;
 }
 
 export interface PreExecutionHookOptions<RequestDataType = any, ResponseDataType = any> {
@@ -283,17 +419,28 @@ export interface StatePersistenceConfig {
   storeAfterHooks?: boolean;
 }
 
-export type InfrastructurePersistenceOperationType = InfrastructurePersistenceOperationTypes.LOAD | InfrastructurePersistenceOperationTypes.STORE;
+export type InfrastructurePersistenceOperationType =
+  | InfrastructurePersistenceOperationTypes.LOAD
+  | InfrastructurePersistenceOperationTypes.STORE
+  | InfrastructurePersistenceOperationTypes.COMPARE_AND_SET;
 
 export interface InfrastructurePersistenceOperation<TState> {
   operationId: string;
   type: InfrastructurePersistenceOperationType;
   timestamp: number;
   state?: TState;
+  expectedVersion?: number;
+}
+
+export interface InfrastructurePersistenceVersionedState<TState> {
+  state: TState | null;
+  version: number;
+  applied?: boolean;
 }
 
 export type InfrastructurePersistenceTransactionResult<TState> =
   | { state?: TState | null; skipped?: boolean }
+  | InfrastructurePersistenceVersionedState<TState>
   | TState
   | null
   | undefined
@@ -327,6 +474,21 @@ export interface CircuitBreakerPersistedState {
   recoveryAttempts: number;
   successfulRecoveries: number;
   failedRecoveries: number;
+  requestWindow?: CircuitBreakerWindowState;
+  attemptWindow?: CircuitBreakerWindowState;
+}
+
+export interface CircuitBreakerWindowBucket {
+  index: number;
+  calls: number;
+  failedCalls: number;
+  slowCalls: number;
+}
+
+export interface CircuitBreakerWindowState {
+  type: CircuitBreakerWindowType;
+  nextSequence: number;
+  buckets: CircuitBreakerWindowBucket[];
 }
 
 export interface CircuitBreakerConfig {
@@ -336,9 +498,56 @@ export interface CircuitBreakerConfig {
   successThresholdPercentage?: number;
   halfOpenMaxRequests?: number;
   trackIndividualAttempts?: boolean;
+  slidingWindowType?: CircuitBreakerWindowType;
+  slidingWindowSize?: number;
+  slidingWindowMs?: number;
+  slidingWindowBuckets?: number;
+  slowCallDurationMs?: number;
+  slowCallRateThresholdPercentage?: number;
+  onStateChange?: CircuitBreakerEventListener<'stateChange'>;
+  sharedState?: boolean;
+  sharedRefreshIntervalMs?: number;
   persistence?: InfrastructurePersistence<CircuitBreakerPersistedState>;
 }
 
+export interface CircuitBreakerEvent {
+  state: CircuitBreakerState;
+  failurePercentage: number;
+  slowCallPercentage: number;
+  timestamp: number;
+}
+
+export interface CircuitBreakerStateChangeEvent extends CircuitBreakerEvent {
+  previousState: CircuitBreakerState;
+  nextState: CircuitBreakerState;
+}
+
+export interface CircuitBreakerCallEvent extends CircuitBreakerEvent {
+  scope: 'request' | 'attempt';
+  durationMs?: number;
+  slow: boolean;
+}
+
+export interface CircuitBreakerEventMap {
+  stateChange: CircuitBreakerStateChangeEvent;
+  rejected: CircuitBreakerEvent;
+  success: CircuitBreakerCallEvent;
+  failure: CircuitBreakerCallEvent;
+}
+
+export type CircuitBreakerEventName = keyof CircuitBreakerEventMap;
+
+export type CircuitBreakerEventListener<EventName extends CircuitBreakerEventName = CircuitBreakerEventName> = (
+  event: CircuitBreakerEventMap[EventName]
+) => void;
+
+export interface CircuitBreakerRegistryConfig {
+  defaults: Omit<CircuitBreakerConfig, 'persistence'>;
+  keyBy?: CircuitBreakerKeyStrategy | ((reqConfig: AxiosRequestConfig) => string);
+  overrides?: Record<string, Partial<Omit<CircuitBreakerConfig, 'persistence'>>>;
+  persistence?: (key: string) => InfrastructurePersistence<CircuitBreakerPersistedState> | undefined;
+}
+
 export interface CircuitBreakerDashboardMetrics {
   state: string;
   isHealthy: boolean;
@@ -346,6 +555,9 @@ export interface CircuitBreakerDashboardMetrics {
   successfulRequests: number;
   failedRequests: number;
   failurePercentage: number;
+  windowCalls: number;
+  windowFailurePercentage: number;
+  slowCallPercentage: number;
   stateTransitions: number;
   lastStateChangeTime: number;
   timeSinceLastStateChange: number;
@@ -359,7 +571,84 @@ export interface CircuitBreakerDashboardMetrics {
   successfulRecoveries: number;
   failedRecoveries: number;
   recoverySuccessRate: number;
-  config: Required<Omit<CircuitBreakerConfig, 'persistence'>>;
+  config: Required<Omit<CircuitBreakerConfig, 'persistence' | 'onStateChange'>>;
+}
+
+export interface CircuitBreakerRegistryDashboardMetrics {
+  totalBreakers: number;
+  openBreakers: number;
+  halfOpenBreakers: number;
+  closedBreakers: number;
+  isHealthy: boolean;
+  totalRequests: number;
+  failedRequests: number;
+  failurePercentage: number;
+  breakers: Record<string, CircuitBreakerDashboardMetrics>;
+}
+
+export interface RateLimiterConfig {
+  mode?: RateLimiterMode;
+  maxRequests: number;
+  windowMs: number;
+  onLimitExceeded?: RateLimitExceededBehavior;
+  maxQueueSize?: number;
+  maxQueueWaitMs?: number;
+  persistence?: InfrastructurePersistence<RateLimiterPersistedState>;
+}
+
+export interface RateLimiterPersistedState {
+  mode: RateLimiterMode;
+  tokens: number;
+  lastRefillTime: number;
+  requestTimestamps: number[];
+  totalRequests: number;
+  allowedRequests: number;
+  rejectedRequests: number;
+  queuedRequests: number;
+  dequeuedRequests: number;
+  totalQueueWaitMs: number;
+}
+
+export interface RateLimiterDashboardMetrics {
+  mode: RateLimiterMode;
+  maxRequests: number;
+  windowMs: number;
+  availablePermits: number;
+  utilizationPercentage: number;
+  queueLength: number;
+  peakQueueLength: number;
+  totalRequests: number;
+  allowedRequests: number;
+  rejectedRequests: number;
+  queuedRequests: number;
+  rejectionRate: number;
+  averageQueueWaitMs: number;
+  timeUntilNextPermit: number;
+}
+
+export interface BulkheadConfig {
+  maxConcurrent: number;
+  maxQueueSize?: number;
+  queueTimeoutMs?: number;
+  keyBy?: BulkheadKeyStrategy | ((reqConfig: AxiosRequestConfig) => string);
+}
+
+export interface BulkheadDashboardMetrics {
+  maxConcurrent: number;
+  maxQueueSize: number;
+  activeRequests: number;
+  queuedRequests: number;
+  peakActiveRequests: number;
+  peakQueuedRequests: number;
+  totalRequests: number;
+  acceptedRequests: number;
+  rejectedRequests: number;
+  queueTimeouts: number;
+  rejectionRate: number;
+  utilizationPercentage: number;
+  averageQueueWaitMs: number;
+  partitions: Record<string, { active: number; queued: number }>;
+  validation?: MetricsValidationResult;
 }
 
 export interface CacheManagerPersistedState {
@@ -368,22 +657,63 @@ export interface CacheManagerPersistedState {
     value: CachedResponse;
   }>;
   accessOrder: string[];
+  varyIndex?: Record<string, string[]>;
   hits: number;
   misses: number;
   sets: number;
   evictions: number;
   expirations: number;
+  staleHits?: number;
+  staleIfErrorHits?: number;
+  revalidations?: number;
+  invalidations?: number;
+  refreshes?: number;
+  refreshFailures?: number;
+}
+
+export interface CachePersistenceOperation {
+  type: 'set' | 'delete' | 'clear' | 'vary';
+  key?: string;
+  value?: CachedResponse;
+  varyHeaders?: string[];
+  timestamp: number;
+}
+
+export interface CacheManagerPersistence extends InfrastructurePersistence<CacheManagerPersistedState> {
+  append?: (operations: CachePersistenceOperation[]) => void | Promise<void>;
+  loadOperations?: () => CachePersistenceOperation[] | null | undefined | Promise<CachePersistenceOperation[] | null | undefined>;
 }
 
 export interface CacheConfig {
   enabled: boolean;
+  namespace?: string;
   ttl?: number;
   respectCacheControl?: boolean;
   cacheableStatusCodes?: number[];
   maxSize?: number;
+  maxBytes?: number;
+  evictionPolicy?: CacheEvictionPolicy;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
   excludeMethods?: REQUEST_METHODS[];
+  cacheableMethods?: REQUEST_METHODS[];
+  keyHeaders?: string[];
+  ignoreParams?: string[];
+  includeBodyInKey?: boolean;
+  tags?: string[] | ((config: AxiosRequestConfig) => string[]);
+  invalidateOnMutation?: boolean;
   keyGenerator?: (config: AxiosRequestConfig) => string;
-  persistence?: InfrastructurePersistence<CacheManagerPersistedState>;
+  persistence?: CacheManagerPersistence;
+  persistenceDebounceMs?: number;
+  compactionThreshold?: number;
+}
+
+export interface CacheWarmerConfig {
+  cache: CacheConfig | CacheManager;
+  refreshAheadMs?: number;
+  concurrency?: number;
+  checkIntervalMs?: number;
+  failureBackoffMs?: number;
 }
 
 export interface CachedResponse<T = any> {
@@ -393,12 +723,20 @@ export interface CachedResponse<T = any> {
   headers: Record<string, any>;
   timestamp: number;
   expiresAt: number;
+  staleWhileRevalidateUntil?: number;
+  staleIfErrorUntil?: number;
+  size?: number;
+  url?: string;
+  tags?: string[];
+  stale?: boolean;
 }
 
 export interface CacheDashboardMetrics {
   isEnabled: boolean;
   currentSize: number;
   maxSize: number;
+  currentBytes: number;
+  evictionPolicy: CacheEvictionPolicy;
   validEntries: number;
   expiredEntries: number;
   utilizationPercentage: number;
@@ -410,6 +748,12 @@ export interface CacheDashboardMetrics {
   sets: number;
   evictions: number;
   expirations: number;
+  staleHits: number;
+  staleIfErrorHits: number;
+  revalidations: number;
+  invalidations: number;
+  refreshes: number;
+  refreshFailures: number;
   averageGetTime: number;
   averageSetTime: number;
   averageCacheAge: number;
@@ -435,7 +779,10 @@ export interface SUCCESSFUL_ATTEMPT_DATA<ResponseDataType = any> {
 
 export interface StableRequestInfrastructureMetrics {
   circuitBreaker?: CircuitBreakerDashboardMetrics;
+  circuitBreakerRegistry?: CircuitBreakerRegistryDashboardMetrics;
   cache?: CacheDashboardMetrics;
+  rateLimiter?: RateLimiterDashboardMetrics;
+  bulkhead?: BulkheadDashboardMetrics;
 }
 
 export interface StableRequestMetrics {
@@ -444,6 +791,10 @@ export interface StableRequestMetrics {
   failedAttempts: number;
   totalExecutionTime: number;
   averageAttemptTime: number;
+  hedgedAttempts?: number;
+  coalesced?: boolean;
+  fallbackUsed?: boolean;
+  winningAttemptIndex?: number;
   infrastructureMetrics?: StableRequestInfrastructureMetrics;
   validation?: MetricsValidationResult;
 }
@@ -456,8 +807,15 @@ export interface STABLE_REQUEST<RequestDataType = any, ResponseDataType = any> {
   performAllAttempts?: boolean;
   wait?: number;
   maxAllowedWait?: number;
-  retryStrategy?: RETRY_STRATEGY_TYPES;
+  retryStrategy?: RETRY_STRATEGY_TYPES | RetryStrategyFunction;
   jitter?: number;
+  respectRetryAfter?: boolean;
+  retryPolicy?: RetryPolicy<RequestDataType>;
+  deadlineMs?: number;
+  deadline?: number | Date;
+  hedging?: HedgingConfig;
+  singleFlight?: boolean;
+  idempotency?: IdempotencyConfig<RequestDataType>;
   logAllErrors?: boolean;
   handleErrors?: (
     options: HandleErrorHookOptions<RequestDataType>
@@ -468,13 +826,19 @@ export interface STABLE_REQUEST<RequestDataType = any, ResponseDataType = any> {
   ) => any | Promise<any>;
   maxSerializableChars?: number;
   finalErrorAnalyzer?: (options: FinalErrorAnalysisHookOptions<RequestDataType>) => boolean | Promise<boolean>;
+  fallback?: FallbackConfig<RequestDataType, ResponseDataType>;
   trialMode?: TRIAL_MODE_OPTIONS;
   hookParams?: HookParams;
   preExecution?: RequestPreExecutionOptions;
   commonBuffer?: BufferLike;
-  cache?: CacheConfig;
+  cache?: CacheConfig | CacheManager;
+  cacheTags?: string[];
+  cacheRefresh?: boolean;
   executionContext?: ExecutionContext;
-  circuitBreaker?: CircuitBreakerConfig | CircuitBreaker;
+  circuitBreaker?: CircuitBreakerConfig | CircuitBreaker | CircuitBreakerRegistry;
+  rateLimiter?: RateLimiterConfig | RateLimiter;
+  bulkhead?: BulkheadConfig | Bulkhead;
+  transport?: Transport;
   statePersistence?: StatePersistenceConfig;
   metricsGuardrails?: MetricsGuardrails;
   throwOnFailedErrorAnalysis?: boolean;
@@ -486,7 +850,48 @@ export interface STABLE_REQUEST_RESULT<ResponseDataType = any> {
   success: boolean;
   data?: ResponseDataType | boolean;
   error?: string;
+  errorType?: RESPONSE_ERROR_TYPES;
+  fromCache?: boolean;
+  stale?: boolean;
+  fallbackUsed?: boolean;
+  idempotencyKey?: string;
   errorLogs?: ERROR_LOG[];
   successfulAttempts?: SUCCESSFUL_ATTEMPT_DATA<ResponseDataType>[];
   metrics?: StableRequestMetrics;
 }
+
+export interface STABLE_REQUEST_BATCH_OPTIONS<RequestDataType = any, ResponseDataType = any> {
+  concurrency?: number;
+  stopOnFirstFailure?: boolean;
+  commonBuffer?: BufferLike;
+  circuitBreaker?: CircuitBreakerConfig | CircuitBreaker | CircuitBreakerRegistry;
+  cache?: CacheConfig | CacheManager;
+  sharedOptions?: Partial<STABLE_REQUEST<RequestDataType, ResponseDataType>>;
+  executionContext?: ExecutionContext;
+  metricsGuardrails?: MetricsGuardrails;
+}
+
+export interface StableRequestBatchMetrics {
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  skippedRequests: number;
+  fallbackRequests: number;
+  successRate: number;
+  failureRate: number;
+  totalExecutionTime: number;
+  throughput: number;
+  averageLatency: number;
+  minLatency: number;
+  maxLatency: number;
+  p50Latency: number;
+  p95Latency: number;
+  infrastructureMetrics?: StableRequestInfrastructureMetrics;
+  validation?: MetricsValidationResult;
+}
+
+export interface STABLE_REQUEST_BATCH_RESULT<ResponseDataType = any> {
+  success: boolean;
+  results: STABLE_REQUEST_RESULT<ResponseDataType>[];
+  metrics: StableRequestBatchMetrics;
+}
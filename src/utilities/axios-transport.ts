@@ -0,0 +1,35 @@
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import { Transport, TransportResponse } from '../types/index.js';
+
+export const axiosTransport: Transport = {
+  name: 'axios',
+  async request<RequestDataType = any, ResponseDataType = any>(
+    reqData: AxiosRequestConfig<RequestDataType>
+  ): Promise<TransportResponse<ResponseDataType>> {
+    try {
+      const res = await axios.request<ResponseDataType, any, RequestDataType>(reqData);
+      return {
+        status: res?.status || 200,
+        statusText: res?.statusText ?? '',
+        headers: (res?.headers as Record<string, any>) ?? {},
+        data: res?.data
+      };
+    } catch (e: any) {
+      const response = (e as AxiosError<ResponseDataType>)?.response;
+      const isCancelled = !!axios.isCancel(e);
+      return {
+        status: response?.status || 0,
+        statusText: response?.statusText ?? '',
+        headers: (response?.headers as Record<string, any>) ?? {},
+        data: response?.data,
+        error: {
+          message: isCancelled ? 'Request was cancelled.' : e?.message,
+          code: e?.code,
+          isCancelled,
+          isTimeout: e?.code === 'ECONNABORTED' || e?.code === 'ETIMEDOUT',
+          cause: e
+        }
+      };
+    }
+  }
+};
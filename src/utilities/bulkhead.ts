@@ -0,0 +1,235 @@
+import { AxiosRequestConfig } from 'axios';
+import { BulkheadConfig } from '../types/index.js';
+import { BulkheadKeyStrategy } from '../enums/index.js';
+import { getRouteKey } from './get-route-key.js';
+import { getSettingsSignature } from './hash-utils.js';
+
+type QueuedPermit = {
+    resolve: (release: () => void) => void;
+    reject: (error: Error) => void;
+    enqueuedAt: number;
+    timeoutId?: ReturnType<typeof setTimeout>;
+};
+
+type BulkheadPartition = {
+    active: number;
+    queue: QueuedPermit[];
+};
+
+export class Bulkhead {
+    private readonly config: Required<Omit<BulkheadConfig, 'keyBy'>> & { keyBy: BulkheadConfig['keyBy'] };
+    private partitions: Map<string, BulkheadPartition> = new Map();
+
+    private totalRequests: number = 0;
+    private acceptedRequests: number = 0;
+    private rejectedRequests: number = 0;
+    private queueTimeouts: number = 0;
+    private dequeuedRequests: number = 0;
+    private totalQueueWaitMs: number = 0;
+    private peakActiveRequests: number = 0;
+    private peakQueuedRequests: number = 0;
+
+    constructor(config: BulkheadConfig) {
+        this.config = {
+            maxConcurrent: Math.max(1, config.maxConcurrent),
+            maxQueueSize: Math.max(0, config.maxQueueSize ?? 0),
+            queueTimeoutMs: config.queueTimeoutMs ?? Infinity,
+            keyBy: config.keyBy ?? BulkheadKeyStrategy.HOST
+        };
+    }
+
+    resolveKey(reqConfig: AxiosRequestConfig): string {
+        const keyBy = this.config.keyBy;
+        if (typeof keyBy === 'function') {
+            return keyBy(reqConfig);
+        }
+        if (keyBy === BulkheadKeyStrategy.GLOBAL) {
+            return '*';
+        }
+        if (keyBy === BulkheadKeyStrategy.ROUTE) {
+            return getRouteKey(reqConfig);
+        }
+        return reqConfig.baseURL ?? '';
+    }
+
+    private getPartition(key: string): BulkheadPartition {
+        let partition = this.partitions.get(key);
+        if (!partition) {
+            partition = { active: 0, queue: [] };
+            this.partitions.set(key, partition);
+        }
+        return partition;
+    }
+
+    private createRelease(key: string, partition: BulkheadPartition): () => void {
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            partition.active--;
+            this.dispatch(key, partition);
+        };
+    }
+
+    private grant(key: string, partition: BulkheadPartition): () => void {
+        partition.active++;
+        this.acceptedRequests++;
+        this.peakActiveRequests = Math.max(this.peakActiveRequests, this.getActiveRequests());
+        return this.createRelease(key, partition);
+    }
+
+    private dispatch(key: string, partition: BulkheadPartition): void {
+        while (partition.active < this.config.maxConcurrent && partition.queue.length > 0) {
+            const entry = partition.queue.shift()!;
+            if (entry.timeoutId) {
+                clearTimeout(entry.timeoutId);
+            }
+            this.dequeuedRequests++;
+            this.totalQueueWaitMs += Date.now() - entry.enqueuedAt;
+            entry.resolve(this.grant(key, partition));
+        }
+        if (partition.active === 0 && partition.queue.length === 0) {
+            this.partitions.delete(key);
+        }
+    }
+
+    hasCapacity(key: string): boolean {
+        const partition = this.partitions.get(key);
+        return !partition || (partition.active < this.config.maxConcurrent && partition.queue.length === 0);
+    }
+
+    async acquire(key: string, maxWaitMs?: number): Promise<() => void> {
+        this.totalRequests++;
+        const partition = this.getPartition(key);
+        if (partition.active < this.config.maxConcurrent && partition.queue.length === 0) {
+            return this.grant(key, partition);
+        }
+
+        const waitLimit = Math.min(this.config.queueTimeoutMs, maxWaitMs ?? Infinity);
+        if (partition.queue.length >= this.config.maxQueueSize || waitLimit <= 0) {
+            this.rejectedRequests++;
+            throw new BulkheadRejectedError(
+                `stable-request: Bulkhead for "${key}" is full (${partition.active} active, ${partition.queue.length} queued).`
+            );
+        }
+
+        return new Promise<() => void>((resolve, reject) => {
+            const entry: QueuedPermit = { resolve, reject, enqueuedAt: Date.now() };
+            if (Number.isFinite(waitLimit)) {
+                entry.timeoutId = setTimeout(() => {
+                    partition.queue = partition.queue.filter((queued) => queued !== entry);
+                    this.rejectedRequests++;
+                    this.queueTimeouts++;
+                    this.dispatch(key, partition);
+                    reject(new BulkheadRejectedError(
+                        `stable-request: Bulkhead queue timeout of ${waitLimit}ms exceeded for "${key}".`
+                    ));
+                }, waitLimit);
+            }
+            partition.queue.push(entry);
+            this.peakQueuedRequests = Math.max(this.peakQueuedRequests, this.getQueuedRequests());
+        });
+    }
+
+    private getActiveRequests(): number {
+        let active = 0;
+        this.partitions.forEach((partition) => (active += partition.active));
+        return active;
+    }
+
+    private getQueuedRequests(): number {
+        let queued = 0;
+        this.partitions.forEach((partition) => (queued += partition.queue.length));
+        return queued;
+    }
+
+    getState(): {
+        activeRequests: number;
+        queuedRequests: number;
+        peakActiveRequests: number;
+        peakQueuedRequests: number;
+        totalRequests: number;
+        acceptedRequests: number;
+        rejectedRequests: number;
+        queueTimeouts: number;
+        rejectionRate: number;
+        averageQueueWaitMs: number;
+        partitions: Record<string, { active: number; queued: number }>;
+        config: Required<Omit<BulkheadConfig, 'keyBy'>> & { keyBy: BulkheadConfig['keyBy'] };
+    } {
+        const partitions: Record<string, { active: number; queued: number }> = {};
+        this.partitions.forEach((partition, key) => {
+            partitions[key] = { active: partition.active, queued: partition.queue.length };
+        });
+
+        return {
+            activeRequests: this.getActiveRequests(),
+            queuedRequests: this.getQueuedRequests(),
+            peakActiveRequests: this.peakActiveRequests,
+            peakQueuedRequests: this.peakQueuedRequests,
+            totalRequests: this.totalRequests,
+            acceptedRequests: this.acceptedRequests,
+            rejectedRequests: this.rejectedRequests,
+            queueTimeouts: this.queueTimeouts,
+            rejectionRate: this.totalRequests > 0
+                ? (this.rejectedRequests / this.totalRequests) * 100
+                : 0,
+            averageQueueWaitMs: this.dequeuedRequests > 0 ? this.totalQueueWaitMs / this.dequeuedRequests : 0,
+            partitions,
+            config: this.config
+        };
+    }
+
+    reset(): void {
+        this.partitions.forEach((partition) => {
+            partition.queue.forEach((entry) => {
+                if (entry.timeoutId) {
+                    clearTimeout(entry.timeoutId);
+                }
+                entry.reject(new BulkheadRejectedError('stable-request: Bulkhead was reset.'));
+            });
+        });
+        this.partitions = new Map();
+        this.totalRequests = 0;
+        this.acceptedRequests = 0;
+        this.rejectedRequests = 0;
+        this.queueTimeouts = 0;
+        this.dequeuedRequests = 0;
+        this.totalQueueWaitMs = 0;
+        this.peakActiveRequests = 0;
+        this.peakQueuedRequests = 0;
+    }
+
+    async execute<T>(key: string, fn: () => Promise<T>): Promise<T> {
+        const release = await this.acquire(key);
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
+    }
+}
+
+export class BulkheadRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BulkheadRejectedError';
+    }
+}
+
+const sharedBulkheads: Map<string, Bulkhead> = new Map();
+
+export function getSharedBulkhead(config: BulkheadConfig): Bulkhead {
+    const signature = getSettingsSignature(config);
+    let bulkhead = sharedBulkheads.get(signature);
+    if (!bulkhead) {
+        bulkhead = new Bulkhead(config);
+        sharedBulkheads.set(signature, bulkhead);
+    }
+    return bulkhead;
+}
+
+export function resetSharedBulkheads(): void {
+    sharedBulkheads.forEach((bulkhead) => bulkhead.reset());
+    sharedBulkheads.clear();
+}
@@ -1,24 +1,56 @@
 import { AxiosRequestConfig } from 'axios';
-import { REQUEST_METHODS } from '../enums/index.js';
-import { CachedResponse, CacheConfig, CacheManagerPersistedState, InfrastructurePersistence } from '../types/index.js';
-import { getNodeCrypto, simpleHashToHex } from './hash-utils.js';
+import { CacheEvictionPolicy, REQUEST_METHODS } from '../enums/index.js';
+import {
+    CachedResponse,
+    CacheConfig,
+    CacheManagerPersistedState,
+    CacheManagerPersistence,
+    CachePersistenceOperation
+} from '../types/index.js';
+import { getSettingsSignature, hashString, stableStringify } from './hash-utils.js';
 import { InfrastructurePersistenceCoordinator } from './infrastructure-persistence.js';
 
-const nodeCrypto = getNodeCrypto();
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z\d+\-.]*:\/\//i;
+const BODYLESS_METHODS = [REQUEST_METHODS.GET, REQUEST_METHODS.HEAD];
+const MAX_SHARED_CACHE_MANAGERS = 50;
+
+type CacheControlDirectives = {
+    ttl: number | null;
+    staleWhileRevalidate?: number;
+    staleIfError?: number;
+};
 
 export class CacheManager {
     private cache: Map<string, CachedResponse>;
-    private config: Required<Omit<CacheConfig, 'keyGenerator' | 'persistence'>> & { keyGenerator?: CacheConfig['keyGenerator'] };
-    private accessOrder: string[] = [];
+    private config: Required<Omit<CacheConfig, 'keyGenerator' | 'persistence' | 'namespace'>> & { keyGenerator?: CacheConfig['keyGenerator'] };
+    private totalBytes: number = 0;
+    private frequencies: Map<string, number> = new Map();
+    private frequencyBuckets: Map<number, Set<string>> = new Map();
+    private minFrequency: number = 0;
+    private expiryHeap: Array<{ expiresAt: number; key: string }> = [];
+    private varyIndex: Map<string, string[]> = new Map();
     private hits: number = 0;
     private misses: number = 0;
     private sets: number = 0;
     private evictions: number = 0;
     private expirations: number = 0;
+    private staleHits: number = 0;
+    private staleIfErrorHits: number = 0;
+    private revalidations: number = 0;
+    private invalidations: number = 0;
+    private refreshes: number = 0;
+    private refreshFailures: number = 0;
+    private tagIndex: Map<string, Set<string>> = new Map();
+    private revalidating: Set<string> = new Set();
     private totalGetTime: number = 0;
     private totalSetTime: number = 0;
-    private readonly persistence?: InfrastructurePersistence<CacheManagerPersistedState>;
+    private readonly persistence?: CacheManagerPersistence;
     private readonly persistenceCoordinator?: InfrastructurePersistenceCoordinator<CacheManagerPersistedState>;
+    private pendingOperations: CachePersistenceOperation[] = [];
+    private operationsSinceSnapshot: number = 0;
+    private recordOperations: boolean = true;
+    private persistTimer?: ReturnType<typeof setTimeout>;
+    private persistQueue: Promise<void> = Promise.resolve();
     private initialized: boolean = false;
 
     constructor(config: CacheConfig) {
@@ -29,7 +61,19 @@ export class CacheManager {
             respectCacheControl: config.respectCacheControl ?? true,
             cacheableStatusCodes: config.cacheableStatusCodes ?? [200, 203, 204, 206, 300, 301, 404, 405, 410, 414, 501],
             maxSize: config.maxSize ?? 100,
+            maxBytes: config.maxBytes ?? Infinity,
+            evictionPolicy: config.evictionPolicy ?? CacheEvictionPolicy.LRU,
+            staleWhileRevalidate: config.staleWhileRevalidate ?? 0,
+            staleIfError: config.staleIfError ?? 0,
             excludeMethods: config.excludeMethods ?? [REQUEST_METHODS.POST, REQUEST_METHODS.PUT, REQUEST_METHODS.PATCH, REQUEST_METHODS.DELETE],
+            cacheableMethods: config.cacheableMethods ?? [],
+            keyHeaders: config.keyHeaders ?? ['accept', 'accept-encoding', 'accept-language', 'authorization'],
+            ignoreParams: config.ignoreParams ?? [],
+            includeBodyInKey: config.includeBodyInKey ?? false,
+            tags: config.tags ?? [],
+            invalidateOnMutation: config.invalidateOnMutation ?? true,
+            persistenceDebounceMs: Math.max(0, config.persistenceDebounceMs ?? 0),
+            compactionThreshold: Math.max(0, config.compactionThreshold ?? 1000),
             keyGenerator: config.keyGenerator
         };
         this.persistence = config.persistence;
@@ -47,6 +91,10 @@ export class CacheManager {
                 if (persistedState) {
                     this.restoreState(persistedState);
                 }
+                const operations = await this.persistence?.loadOperations?.();
+                if (operations && operations.length > 0) {
+                    this.replayOperations(operations);
+                }
             } catch (error) {
                 console.warn('stable-request: Unable to load cache manager state from persistence.');
             }
@@ -55,16 +103,52 @@ export class CacheManager {
     }
 
     private restoreState(persistedState: CacheManagerPersistedState): void {
-        this.cache.clear();
-        for (const entry of persistedState.entries) {
-            this.cache.set(entry.key, entry.value);
+        this.recordOperations = false;
+        this.resetEntries();
+        const entriesByKey = new Map(persistedState.entries.map(entry => [entry.key, entry.value]));
+        const orderedKeys = new Set([
+            ...persistedState.accessOrder.filter(key => entriesByKey.has(key)),
+            ...entriesByKey.keys()
+        ]);
+        for (const key of orderedKeys) {
+            const value = entriesByKey.get(key)!;
+            this.insertEntry(key, { ...value, size: value.size ?? this.estimateSize(value.data, value.headers) });
         }
-        this.accessOrder = persistedState.accessOrder;
+        this.varyIndex = new Map(Object.entries(persistedState.varyIndex ?? {}));
         this.hits = persistedState.hits;
         this.misses = persistedState.misses;
         this.sets = persistedState.sets;
         this.evictions = persistedState.evictions;
         this.expirations = persistedState.expirations;
+        this.staleHits = persistedState.staleHits ?? 0;
+        this.staleIfErrorHits = persistedState.staleIfErrorHits ?? 0;
+        this.revalidations = persistedState.revalidations ?? 0;
+        this.invalidations = persistedState.invalidations ?? 0;
+        this.refreshes = persistedState.refreshes ?? 0;
+        this.refreshFailures = persistedState.refreshFailures ?? 0;
+        this.recordOperations = true;
+    }
+
+    private replayOperations(operations: CachePersistenceOperation[]): void {
+        this.recordOperations = false;
+        for (const operation of operations) {
+            if (operation.type === 'clear') {
+                this.resetEntries();
+                this.varyIndex.clear();
+            } else if (operation.type === 'delete' && operation.key) {
+                this.removeEntry(operation.key);
+            } else if (operation.type === 'set' && operation.key && operation.value) {
+                this.insertEntry(operation.key, operation.value);
+            } else if (operation.type === 'vary' && operation.key) {
+                if (operation.varyHeaders && operation.varyHeaders.length > 0) {
+                    this.varyIndex.set(operation.key, operation.varyHeaders);
+                } else {
+                    this.varyIndex.delete(operation.key);
+                }
+            }
+        }
+        this.operationsSinceSnapshot = operations.length;
+        this.recordOperations = true;
     }
 
     private getPersistedState(): CacheManagerPersistedState {
@@ -74,23 +158,152 @@ export class CacheManager {
         }
         return {
             entries,
-            accessOrder: this.accessOrder,
+            accessOrder: Array.from(this.cache.keys()),
+            varyIndex: Object.fromEntries(this.varyIndex),
             hits: this.hits,
             misses: this.misses,
             sets: this.sets,
             evictions: this.evictions,
-            expirations: this.expirations
+            expirations: this.expirations,
+            staleHits: this.staleHits,
+            staleIfErrorHits: this.staleIfErrorHits,
+            revalidations: this.revalidations,
+            invalidations: this.invalidations,
+            refreshes: this.refreshes,
+            refreshFailures: this.refreshFailures
         };
     }
 
-    private async persistState(): Promise<void> {
-        if (this.persistenceCoordinator) {
+    private recordOperation(operation: Omit<CachePersistenceOperation, 'timestamp'>): void {
+        if (this.persistenceCoordinator && this.recordOperations) {
+            this.pendingOperations.push({ ...operation, timestamp: Date.now() });
+        }
+    }
+
+    private compactOperations(operations: CachePersistenceOperation[]): CachePersistenceOperation[] {
+        let cleared: CachePersistenceOperation | undefined;
+        const latest: Map<string, CachePersistenceOperation> = new Map();
+        for (const operation of operations) {
+            if (operation.type === 'clear') {
+                cleared = operation;
+                latest.clear();
+                continue;
+            }
+            const id = `${operation.type === 'vary' ? 'vary' : 'entry'}:${operation.key}`;
+            latest.delete(id);
+            latest.set(id, operation);
+        }
+        return [...(cleared ? [cleared] : []), ...latest.values()];
+    }
+
+    private persistState(): void {
+        if (!this.persistenceCoordinator) {
+            return;
+        }
+        if (this.config.persistenceDebounceMs <= 0) {
+            this.flush();
+            return;
+        }
+        if (!this.persistTimer) {
+            this.persistTimer = setTimeout(() => {
+                this.persistTimer = undefined;
+                this.flush();
+            }, this.config.persistenceDebounceMs);
+            (this.persistTimer as { unref?: () => void }).unref?.();
+        }
+    }
+
+    private async writePendingOperations(): Promise<void> {
+        const operations = this.compactOperations(this.pendingOperations);
+        this.pendingOperations = [];
+        try {
+            if (this.persistence?.append && this.operationsSinceSnapshot + operations.length <= this.config.compactionThreshold) {
+                if (operations.length > 0) {
+                    await this.persistence.append(operations);
+                    this.operationsSinceSnapshot += operations.length;
+                }
+                return;
+            }
+            await this.persistenceCoordinator!.store(this.getPersistedState());
+            this.operationsSinceSnapshot = 0;
+        } catch (error) {
+            console.warn('stable-request: Unable to store cache manager state to persistence.');
+        }
+    }
+
+    async flush(): Promise<void> {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = undefined;
+        }
+        if (!this.persistenceCoordinator) {
+            return;
+        }
+        this.persistQueue = this.persistQueue.then(() => this.writePendingOperations());
+        return this.persistQueue;
+    }
+
+    async compact(): Promise<void> {
+        this.operationsSinceSnapshot = Infinity;
+        await this.flush();
+    }
+
+    private toLowerCaseHeaders(headers: AxiosRequestConfig['headers'] | Record<string, any>): Record<string, any> {
+        const normalized: Record<string, any> = {};
+        for (const [name, value] of Object.entries(headers || {})) {
+            if (value !== undefined && value !== null) {
+                normalized[name.toLowerCase()] = value;
+            }
+        }
+        return normalized;
+    }
+
+    private parseVary(headers: Record<string, any>): string[] | null {
+        const vary = this.toLowerCaseHeaders(headers)['vary'];
+        if (!vary || typeof vary !== 'string') {
+            return [];
+        }
+        const varyHeaders = vary.split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+        return varyHeaders.includes('*') ? null : varyHeaders;
+    }
+
+    private stripIgnoredParams(url: string): string {
+        const queryIndex = url.indexOf('?');
+        if (queryIndex === -1 || this.config.ignoreParams.length === 0) {
+            return url;
+        }
+        const searchParams = new URLSearchParams(url.slice(queryIndex + 1));
+        this.config.ignoreParams.forEach(param => searchParams.delete(param));
+        const query = searchParams.toString();
+        return `${url.slice(0, queryIndex)}${query ? `?${query}` : ''}`;
+    }
+
+    private canonicalizeBody(data: any): string {
+        if (typeof data === 'string') {
             try {
-                await this.persistenceCoordinator.store(this.getPersistedState());
-            } catch (error) {
-                console.warn('stable-request: Unable to store cache manager state to persistence.');
+                return stableStringify(JSON.parse(data));
+            } catch {
+                return data;
             }
         }
+        return stableStringify(data);
+    }
+
+    private generateBaseKey(reqConfig: AxiosRequestConfig): string {
+        const method = (reqConfig.method || REQUEST_METHODS.GET).toUpperCase();
+        const url = this.stripIgnoredParams(reqConfig.url || '');
+
+        const params = Object.fromEntries(
+            Object.entries(reqConfig.params || {}).filter(([name]) => !this.config.ignoreParams.includes(name))
+        );
+        const paramsString = Object.keys(params).length > 0 ? stableStringify(params) : '';
+
+        const includeBody = this.config.includeBodyInKey || !BODYLESS_METHODS.includes(method as REQUEST_METHODS);
+        const bodyHash = includeBody && reqConfig.data !== undefined
+            ? hashString(this.canonicalizeBody(reqConfig.data))
+            : '';
+
+        return hashString(`${method}:${url}:${paramsString}:${bodyHash}`);
     }
 
     private generateKey(reqConfig: AxiosRequestConfig): string {
@@ -98,28 +311,29 @@ export class CacheManager {
             return this.config.keyGenerator(reqConfig);
         }
 
-        const method = (reqConfig.method || REQUEST_METHODS.GET).toUpperCase();
-        const url = reqConfig.url || '';
-        const params = reqConfig.params ? JSON.stringify(reqConfig.params) : '';
-        
-        const relevantHeaders = ['accept', 'accept-encoding', 'accept-language', 'authorization'];
-        const headers = reqConfig.headers || {};
-        const headerString = relevantHeaders
-            .filter(h => headers[h])
+        const baseKey = this.generateBaseKey(reqConfig);
+        const headers = this.toLowerCaseHeaders(reqConfig.headers);
+        const keyHeaders = Array.from(new Set([
+            ...this.config.keyHeaders.map(h => h.toLowerCase()),
+            ...(this.varyIndex.get(baseKey) ?? [])
+        ]));
+        const headerString = keyHeaders
+            .filter(h => headers[h] !== undefined)
             .map(h => `${h}:${headers[h]}`)
             .join('|');
 
-        const keyString = `${method}:${url}:${params}:${headerString}`;
-
-        if (nodeCrypto?.createHash) {
-            return nodeCrypto.createHash('sha256').update(keyString).digest('hex');
-        }
+        return hashString(`${baseKey}:${headerString}`);
+    }
 
-        return simpleHashToHex(keyString);
+    getCacheKey(reqConfig: AxiosRequestConfig): string | null {
+        return this.shouldCacheMethod(reqConfig.method) ? this.generateKey(reqConfig) : null;
     }
 
     private shouldCacheMethod(method?: string): boolean {
         if (!method) return true;
+        if (this.config.cacheableMethods.includes(method.toUpperCase() as REQUEST_METHODS)) {
+            return true;
+        }
         return !this.config.excludeMethods.includes(method.toUpperCase() as REQUEST_METHODS);
     }
 
@@ -127,20 +341,32 @@ export class CacheManager {
         return this.config.cacheableStatusCodes.includes(status);
     }
 
-    private parseCacheControl(headers: Record<string, any>): number | null {
+    private parseCacheControl(headers: Record<string, any>): CacheControlDirectives {
         if (!this.config.respectCacheControl) {
-            return null;
+            return { ttl: null };
         }
 
+        const directives: CacheControlDirectives = { ttl: null };
         const cacheControl = headers['cache-control'] || headers['Cache-Control'];
         if (cacheControl && typeof cacheControl === 'string') {
             if (cacheControl.includes('no-cache') || cacheControl.includes('no-store')) {
-                return 0;
+                return { ttl: 0 };
+            }
+
+            const staleWhileRevalidateMatch = cacheControl.match(/stale-while-revalidate=(\d+)/);
+            if (staleWhileRevalidateMatch) {
+                directives.staleWhileRevalidate = parseInt(staleWhileRevalidateMatch[1]) * 1000;
+            }
+
+            const staleIfErrorMatch = cacheControl.match(/stale-if-error=(\d+)/);
+            if (staleIfErrorMatch) {
+                directives.staleIfError = parseInt(staleIfErrorMatch[1]) * 1000;
             }
 
             const maxAgeMatch = cacheControl.match(/max-age=(\d+)/);
             if (maxAgeMatch) {
-                return parseInt(maxAgeMatch[1]) * 1000;
+                directives.ttl = parseInt(maxAgeMatch[1]) * 1000;
+                return directives;
             }
         }
 
@@ -149,10 +375,234 @@ export class CacheManager {
             const expiresDate = new Date(expires);
             const now = new Date();
             const ttl = expiresDate.getTime() - now.getTime();
-            return ttl > 0 ? ttl : 0;
+            directives.ttl = ttl > 0 ? ttl : 0;
         }
 
-        return null;
+        return directives;
+    }
+
+    private getValidators(cached: CachedResponse): { etag?: string; lastModified?: string } {
+        const headers = cached.headers || {};
+        return {
+            etag: headers['etag'] || headers['ETag'],
+            lastModified: headers['last-modified'] || headers['Last-Modified']
+        };
+    }
+
+    private hasValidators(cached: CachedResponse): boolean {
+        const { etag, lastModified } = this.getValidators(cached);
+        return !!(etag || lastModified);
+    }
+
+    private getRetainUntil(cached: CachedResponse): number {
+        if (this.hasValidators(cached)) {
+            return Infinity;
+        }
+        return Math.max(cached.expiresAt, cached.staleWhileRevalidateUntil ?? 0, cached.staleIfErrorUntil ?? 0);
+    }
+
+    private createEntry<T>(
+        data: T,
+        status: number,
+        statusText: string,
+        headers: Record<string, any>,
+        now: number
+    ): CachedResponse<T> | null {
+        let ttl = this.config.ttl;
+        const directives = this.parseCacheControl(headers);
+        
+        if (directives.ttl !== null) {
+            if (directives.ttl === 0) {
+                return null;
+            }
+            ttl = directives.ttl;
+        }
+
+        const staleWhileRevalidate = directives.staleWhileRevalidate ?? this.config.staleWhileRevalidate;
+        const staleIfError = directives.staleIfError ?? this.config.staleIfError;
+
+        return {
+            data,
+            status,
+            statusText,
+            headers,
+            timestamp: now,
+            expiresAt: now + ttl,
+            ...(staleWhileRevalidate > 0 && { staleWhileRevalidateUntil: now + ttl + staleWhileRevalidate }),
+            ...(staleIfError > 0 && { staleIfErrorUntil: now + ttl + staleIfError })
+        };
+    }
+
+    private estimateSize(data: any, headers: Record<string, any>): number {
+        try {
+            return (JSON.stringify(data) ?? '').length + (JSON.stringify(headers) ?? '').length;
+        } catch {
+            return 0;
+        }
+    }
+
+    private touch(key: string): void {
+        const cached = this.cache.get(key);
+        if (!cached) return;
+        this.cache.delete(key);
+        this.cache.set(key, cached);
+        if (this.config.evictionPolicy === CacheEvictionPolicy.LFU) {
+            const frequency = this.frequencies.get(key) ?? 0;
+            this.removeFromFrequencyBucket(key, frequency);
+            if (this.minFrequency === frequency && !this.frequencyBuckets.has(frequency)) {
+                this.minFrequency = frequency + 1;
+            }
+            this.addToFrequencyBucket(key, frequency + 1);
+        }
+    }
+
+    private addToFrequencyBucket(key: string, frequency: number): void {
+        let bucket = this.frequencyBuckets.get(frequency);
+        if (!bucket) {
+            bucket = new Set();
+            this.frequencyBuckets.set(frequency, bucket);
+        }
+        bucket.add(key);
+        this.frequencies.set(key, frequency);
+    }
+
+    private removeFromFrequencyBucket(key: string, frequency: number): void {
+        const bucket = this.frequencyBuckets.get(frequency);
+        if (!bucket) return;
+        bucket.delete(key);
+        if (bucket.size === 0) {
+            this.frequencyBuckets.delete(frequency);
+        }
+    }
+
+    private pushExpiry(expiresAt: number, key: string): void {
+        const heap = this.expiryHeap;
+        heap.push({ expiresAt, key });
+        let index = heap.length - 1;
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (heap[parent].expiresAt <= heap[index].expiresAt) break;
+            [heap[parent], heap[index]] = [heap[index], heap[parent]];
+            index = parent;
+        }
+    }
+
+    private popExpiry(): { expiresAt: number; key: string } | undefined {
+        const heap = this.expiryHeap;
+        const top = heap[0];
+        const last = heap.pop();
+        if (heap.length > 0 && last) {
+            heap[0] = last;
+            let index = 0;
+            while (true) {
+                const left = index * 2 + 1;
+                const right = left + 1;
+                let smallest = index;
+                if (left < heap.length && heap[left].expiresAt < heap[smallest].expiresAt) smallest = left;
+                if (right < heap.length && heap[right].expiresAt < heap[smallest].expiresAt) smallest = right;
+                if (smallest === index) break;
+                [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+                index = smallest;
+            }
+        }
+        return top;
+    }
+
+    private rebuildExpiryHeap(): void {
+        this.expiryHeap = [];
+        this.cache.forEach((cached, key) => this.pushExpiry(cached.expiresAt, key));
+    }
+
+    private insertEntry(key: string, cached: CachedResponse): void {
+        this.removeEntry(key);
+        this.cache.set(key, cached);
+        this.recordOperation({ type: 'set', key, value: cached });
+        this.totalBytes += cached.size ?? 0;
+        cached.tags?.forEach(tag => {
+            let keys = this.tagIndex.get(tag);
+            if (!keys) {
+                keys = new Set();
+                this.tagIndex.set(tag, keys);
+            }
+            keys.add(key);
+        });
+        if (this.config.evictionPolicy === CacheEvictionPolicy.LFU) {
+            this.addToFrequencyBucket(key, 1);
+            this.minFrequency = 1;
+        } else if (this.config.evictionPolicy === CacheEvictionPolicy.TTL) {
+            this.pushExpiry(cached.expiresAt, key);
+            if (this.expiryHeap.length > this.cache.size * 2 + 16) {
+                this.rebuildExpiryHeap();
+            }
+        }
+    }
+
+    private removeEntry(key: string): boolean {
+        const cached = this.cache.get(key);
+        if (!cached) {
+            return false;
+        }
+        this.cache.delete(key);
+        this.recordOperation({ type: 'delete', key });
+        this.totalBytes -= cached.size ?? 0;
+        cached.tags?.forEach(tag => {
+            const keys = this.tagIndex.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) {
+                this.tagIndex.delete(tag);
+            }
+        });
+        if (this.config.evictionPolicy === CacheEvictionPolicy.LFU) {
+            this.removeFromFrequencyBucket(key, this.frequencies.get(key) ?? 0);
+            this.frequencies.delete(key);
+        }
+        return true;
+    }
+
+    private resetEntries(): void {
+        this.cache.clear();
+        this.tagIndex.clear();
+        this.totalBytes = 0;
+        this.frequencies.clear();
+        this.frequencyBuckets.clear();
+        this.minFrequency = 0;
+        this.expiryHeap = [];
+    }
+
+    private selectEvictionCandidate(): string | undefined {
+        if (this.config.evictionPolicy === CacheEvictionPolicy.LFU) {
+            if (!this.frequencyBuckets.has(this.minFrequency)) {
+                this.frequencyBuckets.forEach((_, frequency) => {
+                    if (!this.frequencyBuckets.has(this.minFrequency) || frequency < this.minFrequency) {
+                        this.minFrequency = frequency;
+                    }
+                });
+            }
+            return this.frequencyBuckets.get(this.minFrequency)?.values().next().value;
+        }
+        if (this.config.evictionPolicy === CacheEvictionPolicy.TTL) {
+            while (this.expiryHeap.length > 0) {
+                const candidate = this.popExpiry()!;
+                if (this.cache.get(candidate.key)?.expiresAt === candidate.expiresAt) {
+                    return candidate.key;
+                }
+            }
+            return undefined;
+        }
+        return this.cache.keys().next().value;
+    }
+
+    private evictFor(incomingBytes: number): void {
+        while (
+            this.cache.size > 0 &&
+            (this.cache.size >= this.config.maxSize || this.totalBytes + incomingBytes > this.config.maxBytes)
+        ) {
+            const victim = this.selectEvictionCandidate();
+            if (victim === undefined || !this.removeEntry(victim)) {
+                break;
+            }
+            this.evictions++;
+        }
     }
 
     get<T = any>(reqConfig: AxiosRequestConfig): CachedResponse<T> | null {
@@ -178,28 +628,131 @@ export class CacheManager {
         const now = Date.now();
         
         if (now > cached.expiresAt) {
-            this.cache.delete(key);
-            this.accessOrder = this.accessOrder.filter(k => k !== key);
-            this.expirations++;
+            if (cached.staleWhileRevalidateUntil && now <= cached.staleWhileRevalidateUntil) {
+                this.touch(key);
+                this.hits++;
+                this.staleHits++;
+                this.totalGetTime += (Date.now() - startTime);
+                return { ...cached, stale: true } as CachedResponse<T>;
+            }
+
+            if (now > this.getRetainUntil(cached)) {
+                this.removeEntry(key);
+                this.expirations++;
+            }
             this.misses++;
             this.totalGetTime += (Date.now() - startTime);
             return null;
         }
 
-        this.accessOrder = this.accessOrder.filter(k => k !== key);
-        this.accessOrder.push(key);
+        this.touch(key);
         this.hits++;
         this.totalGetTime += (Date.now() - startTime);
 
         return cached as CachedResponse<T>;
     }
 
+    peek<T = any>(reqConfig: AxiosRequestConfig): CachedResponse<T> | null {
+        if (!this.config.enabled || !this.shouldCacheMethod(reqConfig.method)) {
+            return null;
+        }
+        return (this.cache.get(this.generateKey(reqConfig)) as CachedResponse<T>) ?? null;
+    }
+
+    recordRefresh(success: boolean): void {
+        if (success) {
+            this.refreshes++;
+        } else {
+            this.refreshFailures++;
+        }
+    }
+
+    getStale<T = any>(reqConfig: AxiosRequestConfig): CachedResponse<T> | null {
+        if (!this.config.enabled || !this.shouldCacheMethod(reqConfig.method)) {
+            return null;
+        }
+
+        const key = this.generateKey(reqConfig);
+        const cached = this.cache.get(key);
+        if (!cached) {
+            return null;
+        }
+
+        const now = Date.now();
+        if (now > cached.expiresAt && (!cached.staleIfErrorUntil || now > cached.staleIfErrorUntil)) {
+            return null;
+        }
+
+        this.touch(key);
+        if (cached.expiresAt <= now) {
+            this.staleIfErrorHits++;
+        }
+        return { ...cached, stale: now > cached.expiresAt } as CachedResponse<T>;
+    }
+
+    getRevalidationHeaders(reqConfig: AxiosRequestConfig): Record<string, string> | null {
+        if (!this.config.enabled || !this.shouldCacheMethod(reqConfig.method)) {
+            return null;
+        }
+
+        const cached = this.cache.get(this.generateKey(reqConfig));
+        if (!cached || Date.now() <= cached.expiresAt) {
+            return null;
+        }
+
+        const { etag, lastModified } = this.getValidators(cached);
+        if (!etag && !lastModified) {
+            return null;
+        }
+        return {
+            ...(etag && { 'If-None-Match': etag }),
+            ...(lastModified && { 'If-Modified-Since': lastModified })
+        };
+    }
+
+    revalidate<T = any>(reqConfig: AxiosRequestConfig, headers: Record<string, any>): CachedResponse<T> | null {
+        const key = this.generateKey(reqConfig);
+        const cached = this.cache.get(key);
+        if (!cached) {
+            return null;
+        }
+
+        const now = Date.now();
+        const mergedHeaders = { ...cached.headers, ...headers };
+        const refreshed: CachedResponse = {
+            ...(this.createEntry(cached.data, cached.status, cached.statusText, mergedHeaders, now)
+                ?? { ...cached, headers: mergedHeaders, timestamp: now, expiresAt: now }),
+            size: cached.size,
+            url: cached.url,
+            tags: cached.tags
+        };
+
+        this.insertEntry(key, refreshed);
+        this.revalidations++;
+        this.persistState();
+        return refreshed as CachedResponse<T>;
+    }
+
+    beginRevalidation(reqConfig: AxiosRequestConfig): boolean {
+        const key = this.generateKey(reqConfig);
+        if (this.revalidating.has(key)) {
+            return false;
+        }
+        this.revalidating.add(key);
+        return true;
+    }
+
+    endRevalidation(reqConfig: AxiosRequestConfig): void {
+        this.revalidating.delete(this.generateKey(reqConfig));
+    }
+
     set<T = any>(
         reqConfig: AxiosRequestConfig,
         data: T,
         status: number,
         statusText: string,
-        headers: Record<string, any>
+        headers: Record<string, any>,
+        tags: string[] = []
     ): void {
         const startTime = Date.now();
         
@@ -215,59 +768,131 @@ export class CacheManager {
             return;
         }
 
-        const key = this.generateKey(reqConfig);
-        const now = Date.now();
+        const varyHeaders = this.parseVary(headers);
+        if (varyHeaders === null) {
+            return;
+        }
 
-        let ttl = this.config.ttl;
-        const cacheControlTtl = this.parseCacheControl(headers);
-        
-        if (cacheControlTtl !== null) {
-            if (cacheControlTtl === 0) {
-                return;
+        const cached = this.createEntry(data, status, statusText, headers, Date.now());
+        if (!cached) {
+            return;
+        }
+
+        if (!this.config.keyGenerator) {
+            const baseKey = this.generateBaseKey(reqConfig);
+            const currentVaryHeaders = this.varyIndex.get(baseKey) ?? [];
+            if (currentVaryHeaders.join(',') !== varyHeaders.join(',')) {
+                if (varyHeaders.length > 0) {
+                    this.varyIndex.set(baseKey, varyHeaders);
+                } else {
+                    this.varyIndex.delete(baseKey);
+                }
+                this.recordOperation({ type: 'vary', key: baseKey, varyHeaders });
             }
-            ttl = cacheControlTtl;
         }
 
-        const cached: CachedResponse<T> = {
-            data,
-            status,
-            statusText,
-            headers,
-            timestamp: now,
-            expiresAt: now + ttl
-        };
+        const key = this.generateKey(reqConfig);
 
-        if (this.cache.size >= this.config.maxSize) {
-            const oldestKey = this.accessOrder.shift();
-            if (oldestKey) {
-                this.cache.delete(oldestKey);
-                this.evictions++;
-            }
+        cached.size = this.estimateSize(data, headers);
+        if (cached.size > this.config.maxBytes) {
+            return;
         }
 
-        this.cache.set(key, cached);
-        this.accessOrder.push(key);
+        cached.url = this.getResourceUrl(reqConfig);
+        const configTags = typeof this.config.tags === 'function' ? this.config.tags(reqConfig) : this.config.tags;
+        const entryTags = Array.from(new Set([...configTags, ...tags]));
+        if (entryTags.length > 0) {
+            cached.tags = entryTags;
+        }
+
+        this.removeEntry(key);
+        this.evictFor(cached.size);
+        this.insertEntry(key, cached);
         this.sets++;
         this.totalSetTime += (Date.now() - startTime);
         this.persistState();
     }
 
     clear(): void {
-        this.cache.clear();
-        this.accessOrder = [];
+        this.resetEntries();
+        this.varyIndex.clear();
+        this.recordOperation({ type: 'clear' });
         this.persistState();
     }
 
     delete(reqConfig: AxiosRequestConfig): boolean {
         const key = this.generateKey(reqConfig);
-        this.accessOrder = this.accessOrder.filter(k => k !== key);
-        const deleted = this.cache.delete(key);
+        const deleted = this.removeEntry(key);
         if (deleted) {
             this.persistState();
         }
         return deleted;
     }
 
+    private getResourceUrl(reqConfig: AxiosRequestConfig): string {
+        const path = (reqConfig.url ?? '').split('?')[0];
+        return ABSOLUTE_URL_PATTERN.test(path) ? path : `${reqConfig.baseURL ?? ''}${path}`;
+    }
+
+    private getResourcePath(url: string): string {
+        return url.replace(ABSOLUTE_URL_PATTERN, '').replace(/^[^/]*/, '') || '/';
+    }
+
+    invalidateWhere(predicate: (entry: CachedResponse, key: string) => boolean): number {
+        let invalidated = 0;
+        for (const [key, cached] of Array.from(this.cache.entries())) {
+            if (predicate(cached, key) && this.removeEntry(key)) {
+                invalidated++;
+            }
+        }
+        if (invalidated > 0) {
+            this.invalidations += invalidated;
+            this.persistState();
+        }
+        return invalidated;
+    }
+
+    invalidateByTag(tags: string | string[]): number {
+        const keys = new Set<string>();
+        (Array.isArray(tags) ? tags : [tags]).forEach(tag => {
+            this.tagIndex.get(tag)?.forEach(key => keys.add(key));
+        });
+        let invalidated = 0;
+        keys.forEach(key => {
+            if (this.removeEntry(key)) {
+                invalidated++;
+            }
+        });
+        if (invalidated > 0) {
+            this.invalidations += invalidated;
+            this.persistState();
+        }
+        return invalidated;
+    }
+
+    invalidateByPrefix(prefix: string): number {
+        return this.invalidateWhere(cached => !!cached.url && (
+            cached.url.startsWith(prefix) || this.getResourcePath(cached.url).startsWith(prefix)
+        ));
+    }
+
+    invalidateByPattern(pattern: RegExp): number {
+        return this.invalidateWhere(cached => {
+            pattern.lastIndex = 0;
+            return !!cached.url && pattern.test(cached.url);
+        });
+    }
+
+    invalidateAfterMutation(reqConfig: AxiosRequestConfig): number {
+        if (!this.config.enabled || !this.config.invalidateOnMutation || this.shouldCacheMethod(reqConfig.method)) {
+            return 0;
+        }
+        const resourceUrl = this.getResourceUrl(reqConfig);
+        return this.invalidateWhere(cached => !!cached.url && (
+            cached.url === resourceUrl || cached.url.startsWith(`${resourceUrl}/`)
+        ));
+    }
+
     getStats() {
         const now = Date.now();
         const entries = Array.from(this.cache.entries());
@@ -284,6 +909,9 @@ export class CacheManager {
             validEntries: validEntries.length,
             expiredEntries: this.cache.size - validEntries.length,
             maxSize: this.config.maxSize,
+            bytes: this.totalBytes,
+            maxBytes: this.config.maxBytes,
+            evictionPolicy: this.config.evictionPolicy,
             oldestEntry: entries.length > 0 
                 ? Math.min(...entries.map(([_, cached]) => cached.timestamp))
                 : null,
@@ -295,6 +923,12 @@ export class CacheManager {
             sets: this.sets,
             evictions: this.evictions,
             expirations: this.expirations,
+            staleHits: this.staleHits,
+            staleIfErrorHits: this.staleIfErrorHits,
+            revalidations: this.revalidations,
+            invalidations: this.invalidations,
+            refreshes: this.refreshes,
+            refreshFailures: this.refreshFailures,
             totalRequests: totalRequests,
             hitRate: hitRate,
             missRate: missRate,
@@ -310,9 +944,8 @@ export class CacheManager {
         let prunedCount = 0;
 
         for (const [key, cached] of Array.from(this.cache.entries())) {
-            if (now > cached.expiresAt) {
-                this.cache.delete(key);
-                this.accessOrder = this.accessOrder.filter(k => k !== key);
+            if (now > this.getRetainUntil(cached)) {
+                this.removeEntry(key);
                 prunedCount++;
             }
         }
@@ -326,17 +959,88 @@ export class CacheManager {
 }
 
 let globalCacheManager: CacheManager | null = null;
+let warnedAboutSharedCacheLimit = false;
+const globalCacheManagers: Map<string, CacheManager> = new Map();
+const namespacedCacheManagers: Map<string, { cacheManager: CacheManager; config: CacheConfig; warned: Set<string> }> = new Map();
+
+const getCacheSettingsSignature = (config: CacheConfig): string => {
+    const { enabled, namespace, ...settings } = config;
+    return getSettingsSignature(settings);
+};
 
 export function getGlobalCacheManager(config?: CacheConfig): CacheManager {
-    if (!globalCacheManager && config) {
-        globalCacheManager = new CacheManager(config);
+    if (!config) {
+        return globalCacheManager!;
     }
-    return globalCacheManager!;
+    const signature = getCacheSettingsSignature(config);
+    let cacheManager = globalCacheManagers.get(signature);
+    if (cacheManager) {
+        globalCacheManagers.delete(signature);
+    } else {
+        cacheManager = new CacheManager(config);
+        globalCacheManager ??= cacheManager;
+        if (globalCacheManagers.size >= MAX_SHARED_CACHE_MANAGERS) {
+            globalCacheManagers.delete(globalCacheManagers.keys().next().value!);
+            if (!warnedAboutSharedCacheLimit) {
+                warnedAboutSharedCacheLimit = true;
+                console.warn(
+                    `stable-request: More than ${MAX_SHARED_CACHE_MANAGERS} distinct plain cache configs are in use, so the least recently used shared cache was dropped. Pass a CacheManager instance or a namespace instead.`
+                );
+            }
+        }
+    }
+    globalCacheManagers.set(signature, cacheManager);
+    return cacheManager;
 }
 
-export function resetGlobalCacheManager(): void {
-    if (globalCacheManager) {
-        globalCacheManager.clear();
+export function getNamespacedCacheManager(namespace: string, config?: CacheConfig): CacheManager | undefined {
+    const existing = namespacedCacheManagers.get(namespace);
+    if (!existing) {
+        if (!config) {
+            return undefined;
+        }
+        const cacheManager = new CacheManager(config);
+        namespacedCacheManagers.set(namespace, { cacheManager, config, warned: new Set() });
+        return cacheManager;
+    }
+    if (config) {
+        const conflicting = (Object.keys(config) as (keyof CacheConfig)[]).filter((key) =>
+            key !== 'enabled' &&
+            key !== 'namespace' &&
+            config[key] !== undefined &&
+            getSettingsSignature(config[key]) !== getSettingsSignature(existing.config[key])
+        );
+        const signature = conflicting.join(',');
+        if (conflicting.length > 0 && !existing.warned.has(signature)) {
+            existing.warned.add(signature);
+            console.warn(
+                `stable-request: Cache namespace "${namespace}" already exists with different settings for ${conflicting.join(', ')}. The existing settings are kept.`
+            );
+        }
+    }
+    return existing.cacheManager;
+}
+
+export function resolveCacheManager(cache?: CacheConfig | CacheManager): CacheManager | null {
+    if (!cache) {
+        return null;
+    }
+    if (cache instanceof CacheManager) {
+        return cache;
+    }
+    if (!cache.enabled) {
+        return null;
     }
+    return cache.namespace
+        ? getNamespacedCacheManager(cache.namespace, cache)!
+        : getGlobalCacheManager(cache);
+}
+
+export function resetGlobalCacheManager(): void {
+    globalCacheManagers.forEach((cacheManager) => cacheManager.clear());
+    globalCacheManagers.clear();
     globalCacheManager = null;
+    warnedAboutSharedCacheLimit = false;
+    namespacedCacheManagers.forEach(({ cacheManager }) => cacheManager.clear());
+    namespacedCacheManagers.clear();
 }
@@ -0,0 +1,100 @@
+import { AxiosRequestConfig } from 'axios';
+import { CircuitBreakerConfig, CircuitBreakerRegistryConfig } from '../types/index.js';
+import { CircuitBreakerKeyStrategy, CircuitBreakerState } from '../enums/index.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { getRouteKey } from './get-route-key.js';
+
+export class CircuitBreakerRegistry {
+    private readonly defaults: Omit<CircuitBreakerConfig, 'persistence'>;
+    private readonly keyBy: NonNullable<CircuitBreakerRegistryConfig['keyBy']>;
+    private readonly overrides: NonNullable<CircuitBreakerRegistryConfig['overrides']>;
+    private readonly persistence: CircuitBreakerRegistryConfig['persistence'];
+    private breakers: Map<string, CircuitBreaker> = new Map();
+
+    constructor(config: CircuitBreakerRegistryConfig) {
+        this.defaults = config.defaults;
+        this.keyBy = config.keyBy ?? CircuitBreakerKeyStrategy.HOST;
+        this.overrides = config.overrides ?? {};
+        this.persistence = config.persistence;
+    }
+
+    resolveKey(reqConfig: AxiosRequestConfig): string {
+        const keyBy = this.keyBy;
+        if (typeof keyBy === 'function') {
+            return keyBy(reqConfig);
+        }
+        if (keyBy === CircuitBreakerKeyStrategy.GLOBAL) {
+            return '*';
+        }
+        if (keyBy === CircuitBreakerKeyStrategy.ROUTE) {
+            return getRouteKey(reqConfig);
+        }
+        return reqConfig.baseURL ?? '';
+    }
+
+    get(key: string): CircuitBreaker {
+        let breaker = this.breakers.get(key);
+        if (!breaker) {
+            const persistence = this.persistence?.(key);
+            breaker = new CircuitBreaker({ ...this.defaults, ...this.overrides[key], ...(persistence && { persistence }) });
+            this.breakers.set(key, breaker);
+            breaker.initialize().catch((error) => {
+                console.warn(`stable-request: Unable to initialize circuit breaker "${key}".`, error);
+            });
+        }
+        return breaker;
+    }
+
+    getForRequest(reqConfig: AxiosRequestConfig): CircuitBreaker {
+        return this.get(this.resolveKey(reqConfig));
+    }
+
+    has(key: string): boolean {
+        return this.breakers.has(key);
+    }
+
+    keys(): string[] {
+        return Array.from(this.breakers.keys());
+    }
+
+    remove(key: string): boolean {
+        this.breakers.get(key)?.dispose();
+        return this.breakers.delete(key);
+    }
+
+    reset(key?: string): void {
+        if (key !== undefined) {
+            this.breakers.get(key)?.reset();
+            return;
+        }
+        this.breakers.forEach((breaker) => breaker.reset());
+    }
+
+    clear(): void {
+        this.breakers.forEach((breaker) => breaker.dispose());
+        this.breakers = new Map();
+    }
+
+    getState(): {
+        totalBreakers: number;
+        openBreakers: number;
+        halfOpenBreakers: number;
+        closedBreakers: number;
+        breakers: Record<string, ReturnType<CircuitBreaker['getState']>>;
+    } {
+        const breakers: Record<string, ReturnType<CircuitBreaker['getState']>> = {};
+        const counts = { [CircuitBreakerState.OPEN]: 0, [CircuitBreakerState.HALF_OPEN]: 0, [CircuitBreakerState.CLOSED]: 0 };
+        this.breakers.forEach((breaker, key) => {
+            breakers[key] = breaker.getState();
+            counts[breakers[key].state]++;
+        });
+
+        return {
+            totalBreakers: this.breakers.size,
+            openBreakers: counts[CircuitBreakerState.OPEN],
+            halfOpenBreakers: counts[CircuitBreakerState.HALF_OPEN],
+            closedBreakers: counts[CircuitBreakerState.CLOSED],
+            breakers
+        };
+    }
+}
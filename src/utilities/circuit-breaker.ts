@@ -1,12 +1,147 @@
-import { CircuitBreakerConfig, CircuitBreakerPersistedState, InfrastructurePersistence } from '../types/index.js';
-import { CircuitBreakerState } from '../enums/index.js';
+import {
+    CircuitBreakerCallEvent,
+    CircuitBreakerConfig,
+    CircuitBreakerEventListener,
+    CircuitBreakerEventMap,
+    CircuitBreakerEventName,
+    CircuitBreakerPersistedState,
+    CircuitBreakerWindowBucket,
+    CircuitBreakerWindowState,
+    InfrastructurePersistence,
+    InfrastructurePersistenceVersionedState
+} from '../types/index.js';
+import { CircuitBreakerState, CircuitBreakerWindowType } from '../enums/index.js';
 import { InfrastructurePersistenceCoordinator } from './infrastructure-persistence.js';
 
+type WindowTotals = {
+    calls: number;
+    failedCalls: number;
+    slowCalls: number;
+};
+
+type SharedOperation = {
+    type: 'success' | 'failure' | 'attemptSuccess' | 'attemptFailure' | 'reset';
+    durationMs?: number;
+    timestamp: number;
+};
+
+const MAX_SHARED_SYNC_ATTEMPTS = 5;
+const MAX_PENDING_SHARED_OPERATIONS = 1000;
+
+class SlidingWindow {
+    private readonly buckets: CircuitBreakerWindowBucket[];
+    private totals: WindowTotals = { calls: 0, failedCalls: 0, slowCalls: 0 };
+    private nextSequence: number = 0;
+
+    constructor(
+        private readonly type: CircuitBreakerWindowType,
+        private readonly size: number,
+        private readonly bucketSpanMs: number
+    ) {
+        this.buckets = Array.from({ length: size }, () => ({ index: -1, calls: 0, failedCalls: 0, slowCalls: 0 }));
+    }
+
+    private currentIndex(now: number): number {
+        return this.type === CircuitBreakerWindowType.COUNT_BASED
+            ? this.nextSequence
+            : Math.floor(now / this.bucketSpanMs);
+    }
+
+    private clearBucket(bucket: CircuitBreakerWindowBucket): void {
+        this.totals.calls -= bucket.calls;
+        this.totals.failedCalls -= bucket.failedCalls;
+        this.totals.slowCalls -= bucket.slowCalls;
+        bucket.calls = 0;
+        bucket.failedCalls = 0;
+        bucket.slowCalls = 0;
+    }
+
+    private expire(now: number): void {
+        if (this.type !== CircuitBreakerWindowType.TIME_BASED) return;
+        const oldestIndex = this.currentIndex(now) - this.size;
+        this.buckets.forEach((bucket) => {
+            if (bucket.calls > 0 && bucket.index <= oldestIndex) {
+                this.clearBucket(bucket);
+            }
+        });
+    }
+
+    record(failed: boolean, slow: boolean, now: number = Date.now()): void {
+        this.expire(now);
+        const index = this.currentIndex(now);
+        const bucket = this.buckets[index % this.size];
+        if (bucket.index !== index) {
+            this.clearBucket(bucket);
+            bucket.index = index;
+        }
+        bucket.calls++;
+        this.totals.calls++;
+        if (failed) {
+            bucket.failedCalls++;
+            this.totals.failedCalls++;
+        }
+        if (slow) {
+            bucket.slowCalls++;
+            this.totals.slowCalls++;
+        }
+        if (this.type === CircuitBreakerWindowType.COUNT_BASED) {
+            this.nextSequence++;
+        }
+    }
+
+    getTotals(now: number = Date.now()): WindowTotals {
+        this.expire(now);
+        return { ...this.totals };
+    }
+
+    reset(): void {
+        this.buckets.forEach((bucket) => {
+            bucket.index = -1;
+            this.clearBucket(bucket);
+        });
+        this.nextSequence = 0;
+    }
+
+    getPersistedState(): CircuitBreakerWindowState {
+        return {
+            type: this.type,
+            nextSequence: this.nextSequence,
+            buckets: this.buckets.map((bucket) => ({ ...bucket }))
+        };
+    }
+
+    restoreState(persistedState: CircuitBreakerWindowState): void {
+        if (persistedState.type !== this.type || persistedState.buckets.length !== this.size) {
+            return;
+        }
+        this.reset();
+        this.nextSequence = persistedState.nextSequence;
+        persistedState.buckets.forEach((bucket, position) => {
+            Object.assign(this.buckets[position], bucket);
+            this.totals.calls += bucket.calls;
+            this.totals.failedCalls += bucket.failedCalls;
+            this.totals.slowCalls += bucket.slowCalls;
+        });
+    }
+}
+
 export class CircuitBreaker {
     private state: CircuitBreakerState = CircuitBreakerState.CLOSED;
-    private readonly config: Required<Omit<CircuitBreakerConfig, 'persistence'>>;
+    private readonly config: Required<Omit<CircuitBreakerConfig, 'persistence' | 'onStateChange'>>;
     private readonly persistence?: InfrastructurePersistence<CircuitBreakerPersistedState>;
     private readonly persistenceCoordinator?: InfrastructurePersistenceCoordinator<CircuitBreakerPersistedState>;
+    private readonly requestWindow: SlidingWindow;
+    private readonly attemptWindow: SlidingWindow;
+    private listeners: Map<CircuitBreakerEventName, Set<CircuitBreakerEventListener<any>>> = new Map();
+
+    private sharedVersion: number = 0;
+    private sharedBaseline: CircuitBreakerPersistedState;
+    private pendingOperations: SharedOperation[] = [];
+    private syncQueue: Promise<void> = Promise.resolve();
+    private syncScheduled: boolean = false;
+    private refreshTimer?: ReturnType<typeof setInterval>;
+    private replayTimestamp?: number;
+    private replaying: boolean = false;
     
     private totalRequests: number = 0;
     private failedRequests: number = 0;
@@ -34,24 +169,116 @@ export class CircuitBreaker {
     private initialized: boolean = false;
 
     constructor(config: CircuitBreakerConfig) {
+        const minimumRequests = Math.max(1, config.minimumRequests);
         this.config = {
             failureThresholdPercentage: Math.max(0, Math.min(100, config.failureThresholdPercentage)),
-            minimumRequests: Math.max(1, config.minimumRequests),
+            minimumRequests,
             recoveryTimeoutMs: Math.max(100, config.recoveryTimeoutMs),
             successThresholdPercentage: config.successThresholdPercentage ?? 50,
             halfOpenMaxRequests: config.halfOpenMaxRequests ?? 5,
-            trackIndividualAttempts: config.trackIndividualAttempts ?? false
+            trackIndividualAttempts: config.trackIndividualAttempts ?? false,
+            slidingWindowType: config.slidingWindowType ?? CircuitBreakerWindowType.COUNT_BASED,
+            slidingWindowSize: Math.max(minimumRequests, config.slidingWindowSize ?? minimumRequests * 10),
+            slidingWindowMs: Math.max(1, config.slidingWindowMs ?? 60000),
+            slidingWindowBuckets: Math.max(1, Math.floor(config.slidingWindowBuckets ?? 10)),
+            slowCallDurationMs: config.slowCallDurationMs ?? Infinity,
+            slowCallRateThresholdPercentage: Math.max(0, Math.min(100, config.slowCallRateThresholdPercentage ?? 100)),
+            sharedState: config.sharedState ?? false,
+            sharedRefreshIntervalMs: Math.max(0, config.sharedRefreshIntervalMs ?? 1000)
         };
+        if (this.config.sharedState && !config.persistence?.transaction) {
+            throw new Error('stable-request: Shared circuit breaker state requires a persistence adapter with a transaction handler.');
+        }
+        this.requestWindow = this.createWindow();
+        this.attemptWindow = this.createWindow();
+        this.sharedBaseline = this.getPersistedState();
         this.persistence = config.persistence;
         this.persistenceCoordinator = this.persistence
             ? new InfrastructurePersistenceCoordinator(this.persistence, 'circuit-breaker')
             : undefined;
+        if (config.onStateChange) {
+            this.on('stateChange', config.onStateChange);
+        }
+    }
+
+    on<EventName extends CircuitBreakerEventName>(
+        event: EventName,
+        listener: CircuitBreakerEventListener<EventName>
+    ): () => void {
+        let listeners = this.listeners.get(event);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(event, listeners);
+        }
+        listeners.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    off<EventName extends CircuitBreakerEventName>(
+        event: EventName,
+        listener: CircuitBreakerEventListener<EventName>
+    ): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    private emit<EventName extends CircuitBreakerEventName>(
+        event: EventName,
+        payload: Omit<CircuitBreakerEventMap[EventName], 'state' | 'failurePercentage' | 'slowCallPercentage' | 'timestamp'>
+    ): void {
+        const listeners = this.listeners.get(event);
+        if (this.replaying || !listeners || listeners.size === 0) return;
+
+        const now = Date.now();
+        const { failurePercentage, slowCallPercentage } = this.getWindowSnapshot(now);
+        const eventData = { state: this.state, failurePercentage, slowCallPercentage, timestamp: now, ...payload };
+        listeners.forEach((listener) => {
+            try {
+                listener(eventData);
+            } catch (error) {
+                console.warn(`stable-request: Circuit breaker "${event}" listener failed.`, error);
+            }
+        });
+    }
+
+    private emitCall(
+        event: 'success' | 'failure',
+        scope: CircuitBreakerCallEvent['scope'],
+        durationMs?: number
+    ): void {
+        this.emit(event, { scope, slow: this.isSlowCall(durationMs), ...(durationMs !== undefined && { durationMs }) });
+    }
+
+    private now(): number {
+        return this.replayTimestamp ?? Date.now();
+    }
+
+    private changeState(nextState: CircuitBreakerState): void {
+        const previousState = this.state;
+        this.state = nextState;
+        if (previousState !== nextState) {
+            this.emit('stateChange', { previousState, nextState });
+        }
+    }
+
+    private createWindow(): SlidingWindow {
+        return this.config.slidingWindowType === CircuitBreakerWindowType.TIME_BASED
+            ? new SlidingWindow(
+                CircuitBreakerWindowType.TIME_BASED,
+                this.config.slidingWindowBuckets,
+                this.config.slidingWindowMs / this.config.slidingWindowBuckets
+            )
+            : new SlidingWindow(CircuitBreakerWindowType.COUNT_BASED, this.config.slidingWindowSize, 0);
     }
 
     async initialize(): Promise<void> {
         if (this.initialized) return;
         
-        if (this.persistenceCoordinator) {
+        if (this.config.sharedState) {
+            const initialSync = this.syncQueue.then(() => this.synchronize(true));
+            this.syncQueue = initialSync.catch(() => undefined);
+            await initialSync;
+            this.startRefresh();
+        } else if (this.persistenceCoordinator) {
             try {
                 const persistedState = await this.persistenceCoordinator.load();
                 if (persistedState) {
@@ -85,6 +312,12 @@ export class CircuitBreaker {
         this.recoveryAttempts = persistedState.recoveryAttempts;
         this.successfulRecoveries = persistedState.successfulRecoveries;
         this.failedRecoveries = persistedState.failedRecoveries;
+        if (persistedState.requestWindow) {
+            this.requestWindow.restoreState(persistedState.requestWindow);
+        }
+        if (persistedState.attemptWindow) {
+            this.attemptWindow.restoreState(persistedState.attemptWindow);
+        }
     }
 
     private getPersistedState(): CircuitBreakerPersistedState {
@@ -108,11 +341,21 @@ export class CircuitBreaker {
             lastOpenTime: this.lastOpenTime,
             recoveryAttempts: this.recoveryAttempts,
             successfulRecoveries: this.successfulRecoveries,
-            failedRecoveries: this.failedRecoveries
+            failedRecoveries: this.failedRecoveries,
+            requestWindow: this.requestWindow.getPersistedState(),
+            attemptWindow: this.attemptWindow.getPersistedState()
         };
     }
 
     private async persistState(): Promise<void> {
+        if (this.replaying) return;
+        if (this.config.sharedState) {
+            const reset = this.pendingOperations.some((operation) => operation.type === 'reset');
+            if (reset || this.state !== this.sharedBaseline.state) {
+                await this.sync();
+            }
+            return;
+        }
         if (this.persistenceCoordinator) {
             try {
                 await this.persistenceCoordinator.store(this.getPersistedState());
@@ -128,22 +371,40 @@ export class CircuitBreaker {
         }
 
         if (this.state === CircuitBreakerState.OPEN) {
-            const timeSinceLastFailure = Date.now() - this.lastFailureTime;
-            if (timeSinceLastFailure >= this.config.recoveryTimeoutMs) {
-                this.transitionToHalfOpen();
+            if (this.checkRecoveryTimeout()) {
                 return true;
             }
+            this.emit('rejected', {});
             return false;
         }
 
-        if (this.state === CircuitBreakerState.HALF_OPEN) {
-            return this.halfOpenRequests < this.config.halfOpenMaxRequests;
+        if (this.state === CircuitBreakerState.HALF_OPEN && this.halfOpenRequests < this.config.halfOpenMaxRequests) {
+            return true;
         }
 
+        this.emit('rejected', {});
         return false;
     }
 
-    recordSuccess(): void {
+    isCallPermitted(): boolean {
+        return this.state === CircuitBreakerState.CLOSED ||
+            (this.state === CircuitBreakerState.HALF_OPEN && this.halfOpenRequests < this.config.halfOpenMaxRequests);
+    }
+
+    private checkRecoveryTimeout(): boolean {
+        if (this.state !== CircuitBreakerState.OPEN || this.now() - this.lastFailureTime < this.config.recoveryTimeoutMs) {
+            return false;
+        }
+        this.transitionToHalfOpen();
+        return true;
+    }
+
+    private isSlowCall(durationMs?: number): boolean {
+        return durationMs !== undefined && durationMs >= this.config.slowCallDurationMs;
+    }
+
+    recordSuccess(durationMs?: number): void {
+        this.trackSharedOperation('success', durationMs);
         this.totalRequests++;
         this.successfulRequests++;
 
@@ -152,80 +413,88 @@ export class CircuitBreaker {
             this.halfOpenRequests++;
             this.checkHalfOpenTransition();
         } else if (this.state === CircuitBreakerState.CLOSED) {
-            if (this.shouldResetCounters()) {
-                this.resetCounters();
-            }
+            this.requestWindow.record(false, this.isSlowCall(durationMs), this.now());
+            this.checkThreshold();
         }
         
+        this.emitCall('success', 'request', durationMs);
         this.persistState();
     }
 
-    recordFailure(): void {
+    recordFailure(durationMs?: number): void {
+        this.trackSharedOperation('failure', durationMs);
         this.totalRequests++;
         this.failedRequests++;
-        this.lastFailureTime = Date.now();
+        this.lastFailureTime = this.now();
 
         if (this.state === CircuitBreakerState.HALF_OPEN) {
             this.halfOpenFailures++;
             this.halfOpenRequests++;
             this.checkHalfOpenTransition();
         } else if (this.state === CircuitBreakerState.CLOSED) {
+            this.requestWindow.record(true, this.isSlowCall(durationMs), this.now());
             this.checkThreshold();
         }
         
+        this.emitCall('failure', 'request', durationMs);
         this.persistState();
     }
 
-    recordAttemptSuccess(): void {
+    recordAttemptSuccess(durationMs?: number): void {
+        this.trackSharedOperation('attemptSuccess', durationMs);
         this.totalAttempts++;
         this.successfulAttempts++;
 
         if (this.state === CircuitBreakerState.CLOSED) {
+            this.attemptWindow.record(false, this.isSlowCall(durationMs), this.now());
             if (this.config.trackIndividualAttempts) {
                 this.checkAttemptThreshold();
             }
-            if (this.shouldResetCounters()) {
-                this.resetCounters();
-            }
         }
         
+        this.emitCall('success', 'attempt', durationMs);
         this.persistState();
     }
 
-    recordAttemptFailure(): void {
+    recordAttemptFailure(durationMs?: number): void {
+        this.trackSharedOperation('attemptFailure', durationMs);
         this.totalAttempts++;
         this.failedAttempts++;
-        this.lastFailureTime = Date.now();
+        this.lastFailureTime = this.now();
 
         if (this.state === CircuitBreakerState.CLOSED) {
+            this.attemptWindow.record(true, this.isSlowCall(durationMs), this.now());
             if (this.config.trackIndividualAttempts) {
                 this.checkAttemptThreshold();
             }
         }
         
+        this.emitCall('failure', 'attempt', durationMs);
         this.persistState();
     }
 
-    private checkThreshold(): void {
-        if (this.totalRequests < this.config.minimumRequests) {
-            return;
+    private exceedsThresholds(window: SlidingWindow): boolean {
+        const { calls, failedCalls, slowCalls } = window.getTotals();
+        if (calls < this.config.minimumRequests) {
+            return false;
         }
 
-        const failurePercentage = (this.failedRequests / this.totalRequests) * 100;
-        
-        if (failurePercentage >= this.config.failureThresholdPercentage) {
+        const failurePercentage = (failedCalls / calls) * 100;
+        const slowCallPercentage = (slowCalls / calls) * 100;
+
+        return failurePercentage >= this.config.failureThresholdPercentage ||
+            (Number.isFinite(this.config.slowCallDurationMs) &&
+                slowCallPercentage >= this.config.slowCallRateThresholdPercentage);
+    }
+
+    private checkThreshold(): void {
+        if (this.exceedsThresholds(this.requestWindow)) {
             this.transitionToOpen();
         }
     }
 
     private checkAttemptThreshold(): void {
-        if (this.totalAttempts < this.config.minimumRequests) {
-            return;
-        }
-
-        const failurePercentage = (this.failedAttempts / this.totalAttempts) * 100;
-        
-        if (failurePercentage >= this.config.failureThresholdPercentage) {
+        if (this.exceedsThresholds(this.attemptWindow)) {
             this.transitionToOpen();
         }
     }
@@ -243,57 +512,52 @@ export class CircuitBreaker {
     }
 
     private transitionToClosed(): void {
-        const now = Date.now();
+        const now = this.now();
         if (this.state === CircuitBreakerState.HALF_OPEN) {
             this.successfulRecoveries++;
         }
         if (this.state === CircuitBreakerState.OPEN && this.lastOpenTime > 0) {
             this.totalOpenDuration += (now - this.lastOpenTime);
         }
-        this.state = CircuitBreakerState.CLOSED;
         this.lastStateChangeTime = now;
         this.stateTransitions++;
         this.resetCounters();
         this.resetHalfOpenCounters();
+        this.changeState(CircuitBreakerState.CLOSED);
         this.persistState();
     }
 
     private transitionToOpen(): void {
-        const now = Date.now();
+        const now = this.now();
         if (this.state === CircuitBreakerState.HALF_OPEN) {
             this.failedRecoveries++;
         }
-        this.state = CircuitBreakerState.OPEN;
         this.lastStateChangeTime = now;
         this.lastOpenTime = now;
         this.stateTransitions++;
         this.openCount++;
         this.resetHalfOpenCounters();
+        this.changeState(CircuitBreakerState.OPEN);
         this.persistState();
     }
 
     private transitionToHalfOpen(): void {
-        const now = Date.now();
+        const now = this.now();
         if (this.state === CircuitBreakerState.OPEN && this.lastOpenTime > 0) {
             this.totalOpenDuration += (now - this.lastOpenTime);
         }
-        this.state = CircuitBreakerState.HALF_OPEN;
         this.lastStateChangeTime = now;
         this.stateTransitions++;
         this.halfOpenCount++;
         this.recoveryAttempts++;
         this.resetHalfOpenCounters();
+        this.changeState(CircuitBreakerState.HALF_OPEN);
         this.persistState();
     }
 
-    private shouldResetCounters(): boolean {
-        const threshold = this.config.trackIndividualAttempts 
-            ? this.totalAttempts >= this.config.minimumRequests * 10
-            : this.totalRequests >= this.config.minimumRequests * 10;
-        return threshold;
-    }
-
     private resetCounters(): void {
+        this.requestWindow.reset();
+        this.attemptWindow.reset();
         this.totalRequests = 0;
         this.failedRequests = 0;
         this.successfulRequests = 0;
@@ -308,6 +572,16 @@ export class CircuitBreaker {
         this.halfOpenFailures = 0;
     }
 
+    private getWindowSnapshot(now: number): ReturnType<CircuitBreaker['getState']>['slidingWindow'] {
+        const totals = (this.config.trackIndividualAttempts ? this.attemptWindow : this.requestWindow).getTotals(now);
+        return {
+            type: this.config.slidingWindowType,
+            ...totals,
+            failurePercentage: totals.calls > 0 ? (totals.failedCalls / totals.calls) * 100 : 0,
+            slowCallPercentage: totals.calls > 0 ? (totals.slowCalls / totals.calls) * 100 : 0
+        };
+    }
+
     getState(): {
         state: CircuitBreakerState;
         totalRequests: number;
@@ -318,7 +592,15 @@ export class CircuitBreaker {
         failedAttempts: number;
         successfulAttempts: number;
         attemptFailurePercentage: number;
-        config: Required<Omit<CircuitBreakerConfig, 'persistence'>>;
+        slidingWindow: {
+            type: CircuitBreakerWindowType;
+            calls: number;
+            failedCalls: number;
+            slowCalls: number;
+            failurePercentage: number;
+            slowCallPercentage: number;
+        };
+        config: Required<Omit<CircuitBreakerConfig, 'persistence' | 'onStateChange'>>;
         stateTransitions: number;
         lastStateChangeTime: number;
         openCount: number;
@@ -350,6 +632,7 @@ export class CircuitBreaker {
             attemptFailurePercentage: this.totalAttempts > 0
                 ? (this.failedAttempts / this.totalAttempts) * 100
                 : 0,
+            slidingWindow: this.getWindowSnapshot(now),
             config: this.config,
             stateTransitions: this.stateTransitions,
             lastStateChangeTime: this.lastStateChangeTime,
@@ -368,13 +651,131 @@ export class CircuitBreaker {
     }
 
     reset(): void {
-        this.state = CircuitBreakerState.CLOSED;
+        this.trackSharedOperation('reset');
         this.resetCounters();
         this.resetHalfOpenCounters();
         this.lastFailureTime = 0;
+        this.changeState(CircuitBreakerState.CLOSED);
         this.persistState();
     }
 
+    private trackSharedOperation(type: SharedOperation['type'], durationMs?: number): void {
+        if (this.config.sharedState && !this.replaying) {
+            this.pendingOperations.push({ type, timestamp: Date.now(), ...(durationMs !== undefined && { durationMs }) });
+            if (this.pendingOperations.length > MAX_PENDING_SHARED_OPERATIONS) {
+                this.pendingOperations.shift();
+            }
+        }
+    }
+
+    private replayOperations(operations: SharedOperation[]): void {
+        this.replaying = true;
+        try {
+            operations.forEach((operation) => {
+                this.replayTimestamp = operation.timestamp;
+                if (operation.type === 'reset') {
+                    this.reset();
+                } else if (operation.type === 'success') {
+                    this.recordSuccess(operation.durationMs);
+                } else if (operation.type === 'failure') {
+                    this.recordFailure(operation.durationMs);
+                } else if (operation.type === 'attemptSuccess') {
+                    this.recordAttemptSuccess(operation.durationMs);
+                } else {
+                    this.recordAttemptFailure(operation.durationMs);
+                }
+            });
+        } finally {
+            this.replayTimestamp = undefined;
+            this.replaying = false;
+        }
+    }
+
+    private adoptSharedState(
+        shared: InfrastructurePersistenceVersionedState<CircuitBreakerPersistedState>,
+        operations: SharedOperation[]
+    ): boolean {
+        const previousState = this.state;
+        const base = shared.state ?? this.sharedBaseline;
+        this.replaying = true;
+        try {
+            this.restoreState(base);
+            this.checkRecoveryTimeout();
+        } finally {
+            this.replaying = false;
+        }
+        this.replayOperations(operations);
+        const changed = operations.length > 0 || this.state !== base.state;
+        const merged = this.getPersistedState();
+        this.replayOperations(this.pendingOperations);
+        if (this.state !== previousState) {
+            this.emit('stateChange', { previousState, nextState: this.state });
+        }
+        this.sharedBaseline = changed ? merged : base;
+        return changed;
+    }
+
+    private async synchronize(throwOnError: boolean = false): Promise<void> {
+        const operations = this.pendingOperations;
+        this.pendingOperations = [];
+        try {
+            let shared = await this.persistenceCoordinator!.loadVersioned();
+            for (let attempt = 1; attempt <= MAX_SHARED_SYNC_ATTEMPTS; attempt++) {
+                if (!this.adoptSharedState(shared, operations)) {
+                    this.sharedVersion = shared.version;
+                    return;
+                }
+                const result = await this.persistenceCoordinator!.compareAndSet(this.sharedBaseline, shared.version);
+                if (result.applied) {
+                    this.sharedVersion = result.version;
+                    return;
+                }
+                shared = result;
+            }
+            throw new Error(`Shared state changed on each of ${MAX_SHARED_SYNC_ATTEMPTS} attempts.`);
+        } catch (error) {
+            const unsynchronized = [...operations, ...this.pendingOperations];
+            const dropped = Math.max(0, unsynchronized.length - MAX_PENDING_SHARED_OPERATIONS);
+            this.pendingOperations = unsynchronized.slice(dropped);
+            if (throwOnError) {
+                throw error;
+            }
+            console.warn(
+                `stable-request: Unable to synchronize shared circuit breaker state.${dropped > 0 ? ` Dropped ${dropped} queued operations.` : ''}`,
+                error
+            );
+        }
+    }
+
+    sync(): Promise<void> {
+        if (!this.config.sharedState) {
+            return Promise.resolve();
+        }
+        if (!this.syncScheduled) {
+            this.syncScheduled = true;
+            this.syncQueue = this.syncQueue.then(() => {
+                this.syncScheduled = false;
+                return this.synchronize();
+            });
+        }
+        return this.syncQueue;
+    }
+
+    private startRefresh(): void {
+        if (this.refreshTimer || this.config.sharedRefreshIntervalMs <= 0) return;
+        this.refreshTimer = setInterval(() => {
+            this.sync();
+        }, this.config.sharedRefreshIntervalMs);
+        this.refreshTimer.unref?.();
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+
     async execute<T>(fn: () => Promise<T>): Promise<T> {
         const canExecute = await this.canExecute();
         
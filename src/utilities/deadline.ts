@@ -0,0 +1,21 @@
+export class DeadlineExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+export function resolveDeadline(
+  deadlineMs?: number,
+  deadline?: number | Date,
+  startTime = Date.now()
+): number | null {
+  const candidates: number[] = [];
+  if (deadlineMs !== undefined && deadlineMs !== null && deadlineMs >= 0) {
+    candidates.push(startTime + deadlineMs);
+  }
+  if (deadline !== undefined && deadline !== null) {
+    candidates.push(deadline instanceof Date ? deadline.getTime() : deadline);
+  }
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
@@ -0,0 +1,104 @@
+import { ReqFnResponse } from '../types/index.js';
+
+export async function executeHedgedRequest<ResponseDataType = any>(
+  execute: (signal: AbortController['signal'], hedgeIndex: number) => Promise<ReqFnResponse<ResponseDataType>>,
+  hedgeDelayMs: number,
+  maxHedgedRequests = 1,
+  parentSignal?: AbortController['signal'],
+  canHedge: (hedgeIndex: number) => boolean | Promise<boolean> = () => true,
+  onLoserSettled?: (response: ReqFnResponse<ResponseDataType>, hedgeIndex: number) => void
+): Promise<{ response: ReqFnResponse<ResponseDataType>; hedgedAttempts: number; winningIndex: number }> {
+  return new Promise((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    const failures = new Map<number, ReqFnResponse<ResponseDataType>>();
+    let launched = 0;
+    let finished = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const abortAll = () => controllers.forEach((controller) => controller.abort());
+
+    const settle = () => {
+      finished = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      parentSignal?.removeEventListener('abort', abortAll);
+    };
+
+    const finish = (response: ReqFnResponse<ResponseDataType>, winningIndex: number) => {
+      settle();
+      controllers.forEach((controller, index) => {
+        if (index !== winningIndex) {
+          controller.abort();
+        }
+      });
+      failures.forEach((failure, index) => {
+        if (index !== winningIndex) {
+          onLoserSettled?.(failure, index);
+        }
+      });
+      resolve({ response, hedgedAttempts: launched - 1, winningIndex });
+    };
+
+    const scheduleHedge = () => {
+      if (launched > maxHedgedRequests || parentSignal?.aborted) {
+        return;
+      }
+      timer = setTimeout(async () => {
+        timer = undefined;
+        const hedgeIndex = launched;
+        try {
+          const allowed = await canHedge(hedgeIndex);
+          if (!finished && allowed) {
+            launch();
+          }
+        } catch (error: any) {
+          if (!finished) {
+            onLoserSettled?.({
+              ok: false,
+              isRetryable: true,
+              timestamp: new Date().toISOString(),
+              executionTime: 0,
+              error: error?.message ?? String(error),
+              statusCode: 0
+            }, hedgeIndex);
+          }
+        }
+      }, Math.max(0, hedgeDelayMs));
+    };
+
+    const launch = () => {
+      const hedgeIndex = launched++;
+      const controller = new AbortController();
+      controllers.push(controller);
+      if (parentSignal?.aborted) {
+        controller.abort();
+      }
+
+      execute(controller.signal, hedgeIndex).then((response) => {
+        if (finished) {
+          return;
+        }
+        if (response.ok) {
+          finish(response, hedgeIndex);
+          return;
+        }
+        failures.set(hedgeIndex, response);
+        if (failures.size === launched) {
+          finish(response, hedgeIndex);
+        }
+      }, (error) => {
+        if (!finished) {
+          settle();
+          abortAll();
+          reject(error);
+        }
+      });
+
+      scheduleHedge();
+    };
+
+    parentSignal?.addEventListener('abort', abortAll, { once: true });
+    launch();
+  });
+}
@@ -0,0 +1,58 @@
+import { AxiosRequestConfig } from 'axios';
+import { FetchTransportOptions, Transport, TransportResponse } from '../types/index.js';
+import {
+  buildRequestUrl,
+  createAbortScope,
+  parseResponseBody,
+  serializeRequestBody,
+  toTransportError,
+  toTransportResponse
+} from './transport-utils.js';
+
+export function createFetchTransport(options: FetchTransportOptions = {}): Transport {
+  return {
+    name: 'fetch',
+    async request<RequestDataType = any, ResponseDataType = any>(
+      reqData: AxiosRequestConfig<RequestDataType>
+    ): Promise<TransportResponse<ResponseDataType>> {
+      const fetchFn = options.fetch ?? globalThis.fetch;
+      if (typeof fetchFn !== 'function') {
+        return {
+          status: 0,
+          statusText: '',
+          headers: {},
+          error: { message: 'fetch is not available in this runtime.', code: 'ERR_FETCH_UNAVAILABLE' }
+        };
+      }
+
+      const scope = createAbortScope(reqData.signal as AbortController['signal'] | undefined, reqData.timeout);
+      try {
+        const { body, headers } = serializeRequestBody(reqData.data, reqData.headers as Record<string, any>);
+        const response = await fetchFn(buildRequestUrl(reqData), {
+          ...options.init,
+          method: (reqData.method ?? 'GET').toUpperCase(),
+          headers,
+          body,
+          signal: scope.signal
+        });
+        const responseHeaders: Record<string, any> = {};
+        response.headers.forEach((value, key) => {
+          responseHeaders[key] = value;
+        });
+        const data = parseResponseBody(await response.text(), responseHeaders['content-type'], reqData.responseType);
+        return toTransportResponse<ResponseDataType>(reqData, response.status, response.statusText, responseHeaders, data);
+      } catch (e: any) {
+        return {
+          status: 0,
+          statusText: '',
+          headers: {},
+          error: toTransportError(e, scope.isTimedOut(), scope.isCancelled())
+        };
+      } finally {
+        scope.dispose();
+      }
+    }
+  };
+}
+
+export const fetchTransport: Transport = createFetchTransport();
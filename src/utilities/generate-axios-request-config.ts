@@ -1,17 +1,58 @@
 import { REQUEST_DATA } from "../types/index.js";
 import { REQUEST_METHODS, VALID_REQUEST_PROTOCOLS } from "../enums/index.js";
+import { DEFAULT_PROTOCOL_PORTS } from "../constants/index.js";
+import { serializeQueryParams } from "./serialize-query-params.js";
+
+const applyPathParams = (path: string, pathParams?: REQUEST_DATA['pathParams']): string => {
+  if (!pathParams) {
+    return path;
+  }
+  return path.replace(/\/(?::([A-Za-z_]\w*)|\{([A-Za-z_]\w*)\})/g, (_, colonName, braceName) => {
+    const name = colonName ?? braceName;
+    if (!(name in pathParams)) {
+      throw new Error(`stable-request: Missing value for path parameter "${name}".`);
+    }
+    return `/${encodeURIComponent(String(pathParams[name]))}`;
+  });
+};
+
+const PLACEHOLDER_PATTERN = /%7B([A-Za-z_]\w*)%7D/gi;
+
+const parseRequestUrl = (url: string) => {
+  const parsedUrl = new URL(url);
+  const protocol = parsedUrl.protocol.replace(/:$/, '') as VALID_REQUEST_PROTOCOLS;
+  if (!Object.values(VALID_REQUEST_PROTOCOLS).includes(protocol)) {
+    throw new Error(`stable-request: Unsupported protocol "${parsedUrl.protocol}" in reqData.url.`);
+  }
+  return {
+    protocol,
+    hostname: parsedUrl.hostname,
+    port: parsedUrl.port ? Number(parsedUrl.port) : undefined,
+    path: `${parsedUrl.pathname.replace(PLACEHOLDER_PATTERN, '{$1}')}${parsedUrl.search}`
+  };
+};
 
 export function generateAxiosRequestConfig<RequestDataType = any>(reqData: REQUEST_DATA<RequestDataType>) {
+  const parsedUrl = reqData.url ? parseRequestUrl(reqData.url) : undefined;
+  const hostname = reqData.hostname ?? parsedUrl?.hostname;
+  if (!hostname) {
+    throw new Error('stable-request: Either reqData.hostname or reqData.url must be provided.');
+  }
+  const protocol = reqData.protocol ?? parsedUrl?.protocol ?? VALID_REQUEST_PROTOCOLS.HTTPS;
+  const port = reqData.port ?? parsedUrl?.port ?? DEFAULT_PROTOCOL_PORTS[protocol];
+  const querySerialization = reqData.querySerialization;
+
   return {
     method: reqData.method ?? REQUEST_METHODS.GET,
-    url: reqData.path ?? '',
-    baseURL: `${reqData.protocol ?? VALID_REQUEST_PROTOCOLS.HTTPS}://${
-      reqData.hostname
-    }:${reqData.port ?? 443}`,
+    url: applyPathParams(reqData.path ?? parsedUrl?.path ?? '', reqData.pathParams),
+    baseURL: `${protocol}://${hostname}:${port}`,
     headers: reqData.headers ?? {},
     params: reqData.query ?? {},
     data: reqData.body,
     timeout: reqData.timeout ?? 15000,
     ...(reqData.signal ? { signal: reqData.signal } : {}),
+    ...(querySerialization
+      ? { paramsSerializer: { serialize: (params: Record<string, any>) => serializeQueryParams(params, querySerialization) } }
+      : {}),
   };
 }
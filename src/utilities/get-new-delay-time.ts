@@ -1,28 +1,60 @@
 import { RETRY_STRATEGIES } from "../enums/index.js";
+import { ReqFnResponse, RetryStrategyFunction, RETRY_STRATEGY_TYPES } from "../types/index.js";
+
+const getExponentialDelay = (delay: number, currentAttempt: number) =>
+  delay * Math.pow(2, currentAttempt > 0 ? currentAttempt - 1 : currentAttempt);
+
+const getFibonacciFactor = (currentAttempt: number) => {
+  let previous = 0;
+  let current = 1;
+  for (let i = 1; i < currentAttempt; i++) {
+    [previous, current] = [current, previous + current];
+  }
+  return current;
+};
 
 export function getNewDelayTime(
-  retryStrategy = RETRY_STRATEGIES.FIXED,
+  retryStrategy: RETRY_STRATEGY_TYPES | RetryStrategyFunction = RETRY_STRATEGIES.FIXED,
   delay = 1000,
   currentAttempt = 1,
-  jitter = 0
+  jitter = 0,
+  previousDelay = 0,
+  lastResponse?: ReqFnResponse
 ) {
   let calculatedDelay: number;
   
-  switch (retryStrategy) {
-    case RETRY_STRATEGIES.FIXED:
-      calculatedDelay = delay;
-      break;
-    case RETRY_STRATEGIES.LINEAR:
-      calculatedDelay = currentAttempt * delay;
-      break;
-    case RETRY_STRATEGIES.EXPONENTIAL:
-      calculatedDelay = (
-        delay *
-        Math.pow(2, currentAttempt > 0 ? currentAttempt - 1 : currentAttempt)
-      );
-      break;
-    default:
-      calculatedDelay = delay;
+  if (typeof retryStrategy === 'function') {
+    calculatedDelay = Math.max(0, retryStrategy(currentAttempt, previousDelay, lastResponse));
+  } else {
+    switch (retryStrategy) {
+      case RETRY_STRATEGIES.FIXED:
+        calculatedDelay = delay;
+        break;
+      case RETRY_STRATEGIES.LINEAR:
+        calculatedDelay = currentAttempt * delay;
+        break;
+      case RETRY_STRATEGIES.EXPONENTIAL:
+        calculatedDelay = getExponentialDelay(delay, currentAttempt);
+        break;
+      case RETRY_STRATEGIES.FULL_JITTER:
+        calculatedDelay = Math.round(Math.random() * getExponentialDelay(delay, currentAttempt));
+        break;
+      case RETRY_STRATEGIES.EQUAL_JITTER: {
+        const half = getExponentialDelay(delay, currentAttempt) / 2;
+        calculatedDelay = Math.round(half + Math.random() * half);
+        break;
+      }
+      case RETRY_STRATEGIES.DECORRELATED_JITTER: {
+        const upperBound = Math.max(delay, (previousDelay || delay) * 3);
+        calculatedDelay = Math.round(delay + Math.random() * (upperBound - delay));
+        break;
+      }
+      case RETRY_STRATEGIES.FIBONACCI:
+        calculatedDelay = delay * getFibonacciFactor(currentAttempt);
+        break;
+      default:
+        calculatedDelay = delay;
+    }
   }
   
   if (jitter !== 0) {
@@ -0,0 +1,63 @@
+import { RETRY_DELAY_SOURCES } from '../enums/index.js';
+
+const RETRY_AFTER_STATUS_CODES = [429, 503];
+
+const getHeader = (headers: Record<string, any>, name: string): string | undefined => {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+  if (!key) return undefined;
+  const value = headers[key];
+  return Array.isArray(value) ? String(value[0]) : value !== undefined && value !== null ? String(value) : undefined;
+};
+
+const parseRetryAfter = (value: string, now: number): number | null => {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+};
+
+const parseRateLimitReset = (value: string, now: number): number | null => {
+  const parsed = parseFloat(value.trim());
+  if (Number.isNaN(parsed) || parsed < 0) {
+    return null;
+  }
+  if (parsed > 1e12) {
+    return Math.max(0, Math.round(parsed - now));
+  }
+  if (parsed > 1e9) {
+    return Math.max(0, Math.round(parsed * 1000 - now));
+  }
+  return Math.round(parsed * 1000);
+};
+
+export function getRetryAfterDelay(
+  statusCode: number,
+  headers: Record<string, any> = {}
+): { delay: number; source: RETRY_DELAY_SOURCES } | null {
+  if (!RETRY_AFTER_STATUS_CODES.includes(statusCode) || !headers) {
+    return null;
+  }
+
+  const now = Date.now();
+  const candidates: Array<[RETRY_DELAY_SOURCES, (value: string, now: number) => number | null]> = [
+    [RETRY_DELAY_SOURCES.RETRY_AFTER, parseRetryAfter],
+    [RETRY_DELAY_SOURCES.X_RATELIMIT_RESET, parseRateLimitReset],
+    [RETRY_DELAY_SOURCES.RATELIMIT_RESET, parseRateLimitReset]
+  ];
+
+  for (const [source, parse] of candidates) {
+    const value = getHeader(headers, source);
+    if (value === undefined) continue;
+    const delay = parse(value, now);
+    if (delay !== null) {
+      return { delay, source };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,23 @@
+import { AxiosRequestConfig } from 'axios';
+
+const ID_SEGMENT_PATTERN = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,})$/i;
+const PLACEHOLDER_SEGMENT_PATTERN = /^\{([A-Za-z_]\w*)\}$/;
+
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export function getRouteKey(reqConfig: AxiosRequestConfig): string {
+  const method = (reqConfig.method ?? 'GET').toUpperCase();
+  const template = (reqConfig.url ?? '')
+    .split('?')[0]
+    .split('/')
+    .map(decodeSegment)
+    .map((segment) => (ID_SEGMENT_PATTERN.test(segment) ? ':id' : segment.replace(PLACEHOLDER_SEGMENT_PATTERN, ':$1')))
+    .join('/');
+  return `${method} ${reqConfig.baseURL ?? ''}${template}`;
+}
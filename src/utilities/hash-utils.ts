@@ -1,25 +1,198 @@
 import { NodeCryptoLike } from '../types/index.js';
 
-export const getNodeCrypto = (): NodeCryptoLike | null => {
-  const maybeRequire = (globalThis as { require?: (id: string) => unknown }).require;
-  if (typeof maybeRequire === 'function') {
-    try {
-      const mod = maybeRequire('crypto') as NodeCryptoLike;
-      if (mod && typeof mod.createHash === 'function') {
-        return mod;
-      }
-    } catch {
-      return null;
+let nodeCrypto: NodeCryptoLike | null = null;
+
+if (typeof (globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node === 'string') {
+  import('node:crypto')
+    .then((mod) => {
+      nodeCrypto = mod;
+    })
+    .catch(() => undefined);
+}
+
+export const getNodeCrypto = (): NodeCryptoLike | null => nodeCrypto;
+
+const SHA256_ROUND_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+const SHA256_INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+];
+
+const rotateRight = (value: number, bits: number): number => (value >>> bits) | (value << (32 - bits));
+
+const encodeUtf8 = (input: string): number[] => {
+  const bytes: number[] = [];
+  for (const char of input) {
+    let code = char.codePointAt(0)!;
+    if (code >= 0xd800 && code <= 0xdfff) {
+      code = 0xfffd;
     }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Pure SHA-256 used where `node:crypto` is unavailable, so keys match across runtimes.
+ */
+export const sha256Hex = (input: string): string => {
+  const bytes = encodeUtf8(input);
+  const bitLength = bytes.length * 8;
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) {
+    bytes.push(0);
+  }
+  for (let shift = 56; shift >= 0; shift -= 8) {
+    bytes.push(Math.floor(bitLength / 2 ** shift) & 0xff);
+  }
+
+  const state = [...SHA256_INITIAL_STATE];
+  const words: number[] = new Array(64);
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const index = offset + i * 4;
+      words[i] = (bytes[index] << 24) | (bytes[index + 1] << 16) | (bytes[index + 2] << 8) | bytes[index + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(words[i - 15], 7) ^ rotateRight(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotateRight(words[i - 2], 17) ^ rotateRight(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + SHA256_ROUND_CONSTANTS[i] + words[i]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, index) => {
+      state[index] = (state[index] + value) | 0;
+    });
+  }
+  return state.map((value) => (value >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+export const hashString = (input: string): string => {
+  const nodeCrypto = getNodeCrypto();
+  if (nodeCrypto?.createHash) {
+    return nodeCrypto.createHash('sha256').update(input).digest('hex');
+  }
+  return sha256Hex(input);
+};
+
+export const stableStringify = (value: any): string => {
+  if (value === undefined) {
+    return '';
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
   }
-  return null;
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item) || 'null').join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+  return `{${entries.join(',')}}`;
 };
 
-export const simpleHashToHex = (input: string): string => {
-  let hash = 2166136261;
-  for (let i = 0; i < input.length; i++) {
-    hash ^= input.charCodeAt(i);
-    hash += (hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24);
+const identityTokens = new WeakMap<object, number>();
+let nextIdentityToken = 0;
+
+const getIdentityToken = (value: object): string => {
+  let token = identityTokens.get(value);
+  if (token === undefined) {
+    token = ++nextIdentityToken;
+    identityTokens.set(value, token);
+  }
+  return `"#${token}"`;
+};
+
+const signConfig = (value: any, signOpaque: (value: object) => string): string => {
+  if (value === undefined) {
+    return '';
+  }
+  if (typeof value === 'function') {
+    return signOpaque(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => signConfig(item, signOpaque) || 'null').join(',')}]`;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return signOpaque(value);
+  }
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${signConfig(value[key], signOpaque)}`);
+  return `{${entries.join(',')}}`;
+};
+
+export const getConfigSignature = (value: any): string => signConfig(value, getIdentityToken);
+
+/**
+ * Signs only the data-valued settings. Functions and class instances are reduced to their kind,
+ * so configs declared inline on every call still share one signature.
+ */
+export const getSettingsSignature = (value: any): string =>
+  signConfig(value, (opaque) => (typeof opaque === 'function' ? '"<function>"' : '"<object>"'));
+
+type WebCryptoLike = {
+  randomUUID?: () => string;
+  getRandomValues?: (array: Uint8Array) => Uint8Array;
+};
+
+export const generateUUID = (): string => {
+  const webCrypto = (globalThis as { crypto?: WebCryptoLike }).crypto;
+  if (typeof webCrypto?.randomUUID === 'function') {
+    return webCrypto.randomUUID();
+  }
+  const bytes = new Uint8Array(16);
+  if (typeof webCrypto?.getRandomValues === 'function') {
+    webCrypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => {
+      bytes[index] = Math.floor(Math.random() * 256);
+    });
   }
-  return (hash >>> 0).toString(16).padStart(8, '0');
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
 };
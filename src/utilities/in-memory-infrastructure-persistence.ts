@@ -0,0 +1,46 @@
+import { InfrastructurePersistenceOperationTypes } from '../enums/index.js';
+import type {
+    InfrastructurePersistence,
+    InfrastructurePersistenceOperation,
+    InfrastructurePersistenceVersionedState
+} from '../types/index.js';
+
+export class InMemoryInfrastructurePersistence<TState> implements InfrastructurePersistence<TState> {
+    private state: string | null = null;
+    private version: number = 0;
+
+    private read(): TState | null {
+        return this.state === null ? null : JSON.parse(this.state);
+    }
+
+    private write(state: TState): void {
+        this.state = JSON.stringify(state);
+        this.version++;
+    }
+
+    transaction(operation: InfrastructurePersistenceOperation<TState>): InfrastructurePersistenceVersionedState<TState> {
+        if (operation.type === InfrastructurePersistenceOperationTypes.STORE && operation.state !== undefined) {
+            this.write(operation.state);
+            return { state: this.read(), version: this.version, applied: true };
+        }
+
+        if (operation.type === InfrastructurePersistenceOperationTypes.COMPARE_AND_SET && operation.state !== undefined) {
+            if (operation.expectedVersion !== this.version) {
+                return { state: this.read(), version: this.version, applied: false };
+            }
+            this.write(operation.state);
+            return { state: this.read(), version: this.version, applied: true };
+        }
+
+        return { state: this.read(), version: this.version };
+    }
+
+    getVersion(): number {
+        return this.version;
+    }
+
+    clear(): void {
+        this.state = null;
+        this.version = 0;
+    }
+}
@@ -1,18 +1,33 @@
-export { CacheManager, getGlobalCacheManager, resetGlobalCacheManager } from './cache-manager.js';
+export { Bulkhead, BulkheadRejectedError, getSharedBulkhead, resetSharedBulkheads } from './bulkhead.js';
+export { CacheManager, getGlobalCacheManager, getNamespacedCacheManager, resetGlobalCacheManager, resolveCacheManager } from './cache-manager.js';
 export { CircuitBreaker, CircuitBreakerOpenError, getGlobalCircuitBreaker, resetGlobalCircuitBreaker } from './circuit-breaker.js';
+export { CircuitBreakerRegistry } from './circuit-breaker-registry.js';
 export { delay } from './delay.js';
+export { DeadlineExceededError, resolveDeadline } from './deadline.js';
+export { executeHedgedRequest } from './execute-hedged-request.js';
 export { executeWithPersistence } from './execute-with-persistence.js';
 export { formatLogContext } from './format-log-context.js';
 export { generateAxiosRequestConfig } from './generate-axios-request-config.js';
 export { getNewDelayTime } from './get-new-delay-time.js';
+export { getRouteKey } from './get-route-key.js';
+export { getRetryAfterDelay } from './get-retry-after-delay.js';
 export { isRetryableError } from './is-retryable-error.js';
 export { MetricsAggregator } from './metrics-aggregator.js';
 export { MetricsValidator } from './metrics-validator.js';
+export { RateLimiter, RateLimitExceededError, getSharedRateLimiter, resetSharedRateLimiters } from './rate-limiter.js';
 export { reqFn } from './req-fn.js';
+export { axiosTransport } from './axios-transport.js';
+export { createFetchTransport, fetchTransport } from './fetch-transport.js';
+export { createNodeHttpTransport, nodeHttpTransport } from './node-http-transport.js';
+export { buildRequestUrl } from './transport-utils.js';
+export { generateIdempotencyKey, replayIdempotencyKey, resolveIdempotencyKey } from './resolve-idempotency-key.js';
+export { executeSingleFlight, getSingleFlightKey } from './single-flight.js';
+export { serializeQueryParams } from './serialize-query-params.js';
 export { safelyExecuteUnknownFunction } from './safely-execute-unknown-function.js';
 export { safelyStringify } from './safely-stringify.js';
 export { validateTrialModeProbabilities } from './validate-trial-mode-probabilities.js';
-export { getNodeCrypto, simpleHashToHex } from './hash-utils.js';
+export { generateUUID, getConfigSignature, getNodeCrypto, getSettingsSignature, hashString, sha256Hex, stableStringify } from './hash-utils.js';
 export { isStableBuffer, withBuffer } from './buffer-utils.js';
 export { InfrastructurePersistenceCoordinator } from './infrastructure-persistence.js';
+export { InMemoryInfrastructurePersistence } from './in-memory-infrastructure-persistence.js';
 export { replayStableBufferTransactions } from './stable-buffer-replay.js';
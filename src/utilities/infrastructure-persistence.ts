@@ -7,6 +7,7 @@ import type {
   InfrastructurePersistenceOperation,
   InfrastructurePersistenceOperationType,
   InfrastructurePersistenceTransactionResult,
+  InfrastructurePersistenceVersionedState,
   StableBufferInstance
 } from '../types/index.js';
 
@@ -38,13 +39,24 @@ const getPersistenceMeta = (state: Record<string, any>): PersistenceBufferMeta =
 const normalizeLoadResult = <TState>(
   result: InfrastructurePersistenceTransactionResult<TState>
 ): TState | null | undefined => {
-  if (result && typeof result === 'object' && 'skipped' in result) {
+  if (result && typeof result === 'object' && ('skipped' in result || 'version' in result)) {
     return (result as { state?: TState | null }).state ?? null;
   }
 
   return result as TState | null | undefined;
 };
 
+const normalizeVersionedResult = <TState>(
+  result: InfrastructurePersistenceTransactionResult<TState>
+): InfrastructurePersistenceVersionedState<TState> => {
+  if (result && typeof result === 'object' && 'version' in result) {
+    const versioned = result as InfrastructurePersistenceVersionedState<TState>;
+    return { state: versioned.state ?? null, version: versioned.version, applied: versioned.applied ?? false };
+  }
+
+  throw new Error('stable-request: The persistence transaction handler did not return a version. Shared state requires versioned load and compare-and-set results.');
+};
+
 export class InfrastructurePersistenceCoordinator<TState> {
   private readonly buffer: StableBufferInstance;
   private operationCounter = 0;
@@ -85,6 +97,38 @@ export class InfrastructurePersistenceCoordinator<TState> {
     });
   }
 
+  async loadVersioned(): Promise<InfrastructurePersistenceVersionedState<TState>> {
+    if (!this.persistence) {
+      return { state: null, version: 0 };
+    }
+
+    const operationId = this.nextOperationId(InfrastructurePersistenceOperationTypes.LOAD);
+    const result = await this.runTransaction({
+      operationId,
+      type: InfrastructurePersistenceOperationTypes.LOAD,
+      timestamp: Date.now()
+    });
+
+    return normalizeVersionedResult(result);
+  }
+
+  async compareAndSet(state: TState, expectedVersion: number): Promise<InfrastructurePersistenceVersionedState<TState>> {
+    if (!this.persistence) {
+      return { state, version: expectedVersion, applied: true };
+    }
+
+    const operationId = this.nextOperationId(InfrastructurePersistenceOperationTypes.COMPARE_AND_SET);
+    const result = await this.runTransaction({
+      operationId,
+      type: InfrastructurePersistenceOperationTypes.COMPARE_AND_SET,
+      timestamp: Date.now(),
+      state,
+      expectedVersion
+    });
+
+    return normalizeVersionedResult(result);
+  }
+
   private nextOperationId(type: InfrastructurePersistenceOperationType): string {
     this.operationCounter += 1;
     return `${this.label}-${type}-${Date.now()}-${this.operationCounter}`;
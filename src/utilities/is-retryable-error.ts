@@ -1,10 +1,26 @@
-import { AxiosError } from 'axios';
-import { TRIAL_MODE_OPTIONS } from '../types/index.js';
-import { INVALID_AXIOS_RESPONSES } from '../enums/index.js';
+import { AxiosRequestConfig } from 'axios';
+import { RetryPolicy, TRIAL_MODE_OPTIONS, TransportResponse } from '../types/index.js';
+import { REQUEST_METHODS } from '../enums/index.js';
+import {
+  DEFAULT_IDEMPOTENCY_KEY_HEADER,
+  DEFAULT_RETRYABLE_ERROR_CODES,
+  DEFAULT_RETRYABLE_STATUS_CODES
+} from '../constants/index.js';
+
+const hasHeader = (headers: Record<string, any> | undefined, name: string): boolean => {
+  if (!headers) return false;
+  const lowerCaseName = name.toLowerCase();
+  return Object.keys(headers).some(
+    (key) => key.toLowerCase() === lowerCaseName && headers[key] !== undefined && headers[key] !== null && headers[key] !== ''
+  );
+};
 
 export function isRetryableError(
-  error: AxiosError,
-  trialMode: TRIAL_MODE_OPTIONS = { enabled: false }
+  response: Pick<TransportResponse, 'status' | 'error'>,
+  trialMode: TRIAL_MODE_OPTIONS = { enabled: false },
+  retryPolicy?: RetryPolicy,
+  reqData?: AxiosRequestConfig,
+  attempt = 1
 ) {
   if (trialMode.enabled) {
     if (Math.random() <= (trialMode?.retryFailureProbability ?? 0)) {
@@ -14,18 +30,40 @@ export function isRetryableError(
     return true;
   }
 
-  const statusCode = error?.response?.status ?? 200;
-  const errorCode = error.code;
-
-  return (
-    statusCode >= 500 ||
-    statusCode === 408 ||
-    statusCode === 429 ||
-    statusCode === 409 ||
-    errorCode === INVALID_AXIOS_RESPONSES.RESET ||
-    errorCode === INVALID_AXIOS_RESPONSES.TIMEDOUT ||
-    errorCode === INVALID_AXIOS_RESPONSES.REFUSED ||
-    errorCode === INVALID_AXIOS_RESPONSES.NOTFOUND ||
-    errorCode === INVALID_AXIOS_RESPONSES.EAI_AGAIN
-  );
+  const statusCode = response?.status || 200;
+  const errorCode = response?.error?.code;
+
+  const isRetryableStatus = retryPolicy?.retryableStatusCodes
+    ? retryPolicy.retryableStatusCodes.includes(statusCode)
+    : statusCode >= 500 || (DEFAULT_RETRYABLE_STATUS_CODES as readonly number[]).includes(statusCode);
+  const isRetryableCode = !!errorCode &&
+    (retryPolicy?.retryableErrorCodes ?? DEFAULT_RETRYABLE_ERROR_CODES).includes(errorCode);
+
+  let isRetryable = isRetryableStatus || isRetryableCode;
+
+  if (isRetryable && retryPolicy?.retryableMethods && reqData) {
+    const method = (reqData.method ?? REQUEST_METHODS.GET).toUpperCase() as REQUEST_METHODS;
+    if (!retryPolicy.retryableMethods.includes(method)) {
+      isRetryable = hasHeader(
+        reqData.headers as Record<string, any>,
+        retryPolicy.idempotencyKeyHeader ?? DEFAULT_IDEMPOTENCY_KEY_HEADER
+      );
+    }
+  }
+
+  if (retryPolicy?.shouldRetry) {
+    try {
+      return !!retryPolicy.shouldRetry({
+        reqData,
+        statusCode: response?.status || 0,
+        error: response?.error,
+        attempt,
+        isRetryable
+      });
+    } catch (e: any) {
+      console.error(`stable-request: Unable to evaluate retry policy. Error message provided by your shouldRetry: ${e?.message}`);
+    }
+  }
+
+  return isRetryable;
 }
@@ -1,9 +1,15 @@
 import {
     CircuitBreakerDashboardMetrics,
+    CircuitBreakerRegistryDashboardMetrics,
     CacheDashboardMetrics,
+    RateLimiterDashboardMetrics,
+    BulkheadDashboardMetrics,
 } from '../types/index.js';
+import { Bulkhead } from './bulkhead.js';
 import { CircuitBreaker } from './circuit-breaker.js';
+import { CircuitBreakerRegistry } from './circuit-breaker-registry.js';
 import { CacheManager } from './cache-manager.js';
+import { RateLimiter } from './rate-limiter.js';
 
 export class MetricsAggregator {
 
@@ -18,6 +24,9 @@ export class MetricsAggregator {
             successfulRequests: state.successfulRequests,
             failedRequests: state.failedRequests,
             failurePercentage: state.failurePercentage,
+            windowCalls: state.slidingWindow.calls,
+            windowFailurePercentage: state.slidingWindow.failurePercentage,
+            slowCallPercentage: state.slidingWindow.slowCallPercentage,
             stateTransitions: state.stateTransitions,
             lastStateChangeTime: state.lastStateChangeTime,
             timeSinceLastStateChange: now - state.lastStateChangeTime,
@@ -35,6 +44,30 @@ export class MetricsAggregator {
         };
     }
     
+    static extractCircuitBreakerRegistryMetrics(registry: CircuitBreakerRegistry): CircuitBreakerRegistryDashboardMetrics {
+        const state = registry.getState();
+        const breakers: Record<string, CircuitBreakerDashboardMetrics> = {};
+        let totalRequests = 0;
+        let failedRequests = 0;
+        registry.keys().forEach((key) => {
+            breakers[key] = this.extractCircuitBreakerMetrics(registry.get(key));
+            totalRequests += breakers[key].totalRequests;
+            failedRequests += breakers[key].failedRequests;
+        });
+
+        return {
+            totalBreakers: state.totalBreakers,
+            openBreakers: state.openBreakers,
+            halfOpenBreakers: state.halfOpenBreakers,
+            closedBreakers: state.closedBreakers,
+            isHealthy: state.openBreakers === 0,
+            totalRequests,
+            failedRequests,
+            failurePercentage: totalRequests > 0 ? (failedRequests / totalRequests) * 100 : 0,
+            breakers
+        };
+    }
+    
     static extractCacheMetrics(cacheManager: CacheManager): CacheDashboardMetrics {
         const stats = cacheManager.getStats();
         const now = Date.now();
@@ -43,6 +76,8 @@ export class MetricsAggregator {
             isEnabled: true,
             currentSize: stats.size,
             maxSize: stats.maxSize,
+            currentBytes: stats.bytes,
+            evictionPolicy: stats.evictionPolicy,
             validEntries: stats.validEntries,
             expiredEntries: stats.expiredEntries,
             utilizationPercentage: stats.utilizationPercentage,
@@ -54,6 +89,12 @@ export class MetricsAggregator {
             sets: stats.sets,
             evictions: stats.evictions,
             expirations: stats.expirations,
+            staleHits: stats.staleHits,
+            staleIfErrorHits: stats.staleIfErrorHits,
+            revalidations: stats.revalidations,
+            invalidations: stats.invalidations,
+            refreshes: stats.refreshes,
+            refreshFailures: stats.refreshFailures,
             averageGetTime: stats.averageGetTime,
             averageSetTime: stats.averageSetTime,
             averageCacheAge: stats.averageCacheAge,
@@ -65,4 +106,47 @@ export class MetricsAggregator {
                 : 0
         };
     }
+
+    static extractRateLimiterMetrics(rateLimiter: RateLimiter): RateLimiterDashboardMetrics {
+        const state = rateLimiter.getState();
+
+        return {
+            mode: state.mode,
+            maxRequests: state.config.maxRequests,
+            windowMs: state.config.windowMs,
+            availablePermits: state.availablePermits,
+            utilizationPercentage: ((state.config.maxRequests - state.availablePermits) / state.config.maxRequests) * 100,
+            queueLength: state.queueLength,
+            peakQueueLength: state.peakQueueLength,
+            totalRequests: state.totalRequests,
+            allowedRequests: state.allowedRequests,
+            rejectedRequests: state.rejectedRequests,
+            queuedRequests: state.queuedRequests,
+            rejectionRate: state.rejectionRate,
+            averageQueueWaitMs: state.averageQueueWaitMs,
+            timeUntilNextPermit: state.timeUntilNextPermit
+        };
+    }
+
+    static extractBulkheadMetrics(bulkhead: Bulkhead): BulkheadDashboardMetrics {
+        const state = bulkhead.getState();
+        const partitionCount = Math.max(1, Object.keys(state.partitions).length);
+
+        return {
+            maxConcurrent: state.config.maxConcurrent,
+            maxQueueSize: state.config.maxQueueSize,
+            activeRequests: state.activeRequests,
+            queuedRequests: state.queuedRequests,
+            peakActiveRequests: state.peakActiveRequests,
+            peakQueuedRequests: state.peakQueuedRequests,
+            totalRequests: state.totalRequests,
+            acceptedRequests: state.acceptedRequests,
+            rejectedRequests: state.rejectedRequests,
+            queueTimeouts: state.queueTimeouts,
+            rejectionRate: state.rejectionRate,
+            utilizationPercentage: (state.activeRequests / (state.config.maxConcurrent * partitionCount)) * 100,
+            averageQueueWaitMs: state.averageQueueWaitMs,
+            partitions: state.partitions
+        };
+    }
 }
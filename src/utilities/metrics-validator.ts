@@ -9,6 +9,8 @@ import {
   REQUEST_METRICS_TO_VALIDATE_KEYS,
   CIRCUIT_BREAKER_METRICS_TO_VALIDATE_KEYS,
   CACHE_METRICS_TO_VALIDATE_KEYS,
+  BATCH_METRICS_TO_VALIDATE_KEYS,
+  BULKHEAD_METRICS_TO_VALIDATE_KEYS,
   STABLE_BUFFER_METRICS_TO_VALIDATE_KEYS
 } from '../constants/index.js';
 
@@ -123,6 +125,39 @@ export class MetricsValidator {
     };
   }
 
+  static validateBatchMetrics(
+    metrics: {
+      successRate?: number;
+      failureRate?: number;
+      totalExecutionTime?: number;
+      throughput?: number;
+    },
+    guardrails: MetricsGuardrails
+  ): MetricsValidationResult {
+    const anomalies: MetricAnomaly[] = [];
+    const commonGuardrails = guardrails.common || {};
+    
+    const metricsToValidate: Array<{ name: string; value: number | undefined; guardrail: MetricGuardrail | undefined }> = [
+      { name: BATCH_METRICS_TO_VALIDATE_KEYS[0], value: metrics.successRate, guardrail: commonGuardrails.successRate },
+      { name: BATCH_METRICS_TO_VALIDATE_KEYS[1], value: metrics.failureRate, guardrail: commonGuardrails.failureRate },
+      { name: BATCH_METRICS_TO_VALIDATE_KEYS[2], value: metrics.totalExecutionTime, guardrail: commonGuardrails.executionTime },
+      { name: BATCH_METRICS_TO_VALIDATE_KEYS[3], value: metrics.throughput, guardrail: commonGuardrails.throughput }
+    ];
+    
+    for (const { name, value, guardrail } of metricsToValidate) {
+      if (value !== undefined && guardrail) {
+        const anomaly = this.validateMetric(name, value, guardrail);
+        if (anomaly) anomalies.push(anomaly);
+      }
+    }
+    
+    return {
+      isValid: anomalies.length === 0,
+      anomalies,
+      validatedAt: new Date().toISOString()
+    };
+  }
+
   static validateCircuitBreakerMetrics(
     metrics: {
       failureRate?: number;
@@ -187,6 +222,41 @@ export class MetricsValidator {
     };
   }
 
+  static validateBulkheadMetrics(
+    metrics: {
+      activeRequests?: number;
+      queuedRequests?: number;
+      rejectedRequests?: number;
+      rejectionRate?: number;
+      utilizationPercentage?: number;
+    },
+    guardrails: MetricsGuardrails
+  ): MetricsValidationResult {
+    const anomalies: MetricAnomaly[] = [];
+    const bulkheadGuardrails = guardrails.infrastructure?.bulkhead || {};
+    
+    const metricsToValidate: Array<{ name: string; value: number | undefined; guardrail: MetricGuardrail | undefined }> = [
+      { name: BULKHEAD_METRICS_TO_VALIDATE_KEYS[0], value: metrics.activeRequests, guardrail: bulkheadGuardrails.activeRequests },
+      { name: BULKHEAD_METRICS_TO_VALIDATE_KEYS[1], value: metrics.queuedRequests, guardrail: bulkheadGuardrails.queuedRequests },
+      { name: BULKHEAD_METRICS_TO_VALIDATE_KEYS[2], value: metrics.rejectedRequests, guardrail: bulkheadGuardrails.rejectedRequests },
+      { name: BULKHEAD_METRICS_TO_VALIDATE_KEYS[3], value: metrics.rejectionRate, guardrail: bulkheadGuardrails.rejectionRate },
+      { name: BULKHEAD_METRICS_TO_VALIDATE_KEYS[4], value: metrics.utilizationPercentage, guardrail: bulkheadGuardrails.utilizationPercentage }
+    ];
+    
+    for (const { name, value, guardrail } of metricsToValidate) {
+      if (value !== undefined && guardrail) {
+        const anomaly = this.validateMetric(name, value, guardrail);
+        if (anomaly) anomalies.push(anomaly);
+      }
+    }
+    
+    return {
+      isValid: anomalies.length === 0,
+      anomalies,
+      validatedAt: new Date().toISOString()
+    };
+  }
+
   static validateStableBufferMetrics(
     metrics: {
       totalTransactions?: number;
@@ -0,0 +1,74 @@
+import { AxiosRequestConfig } from 'axios';
+import { NodeHttpTransportOptions, Transport, TransportResponse } from '../types/index.js';
+import {
+  buildRequestUrl,
+  createAbortScope,
+  parseResponseBody,
+  serializeRequestBody,
+  toTransportError,
+  toTransportResponse
+} from './transport-utils.js';
+
+export function createNodeHttpTransport(options: NodeHttpTransportOptions = {}): Transport {
+  return {
+    name: 'node-http',
+    async request<RequestDataType = any, ResponseDataType = any>(
+      reqData: AxiosRequestConfig<RequestDataType>
+    ): Promise<TransportResponse<ResponseDataType>> {
+      const scope = createAbortScope(reqData.signal as AbortController['signal'] | undefined, reqData.timeout);
+      try {
+        const url = new URL(buildRequestUrl(reqData));
+        const isHttps = url.protocol === 'https:';
+        const client = isHttps ? await import('node:https') : await import('node:http');
+        const { body, headers } = serializeRequestBody(reqData.data, reqData.headers as Record<string, any>);
+        const payload = body === undefined
+          ? undefined
+          : body instanceof URLSearchParams
+            ? body.toString()
+            : body instanceof ArrayBuffer
+              ? new Uint8Array(body)
+              : body;
+
+        return await new Promise<TransportResponse<ResponseDataType>>((resolve, reject) => {
+          const req = client.request(url, {
+            method: (reqData.method ?? 'GET').toUpperCase(),
+            headers,
+            agent: options.agent ?? (isHttps ? options.httpsAgent : options.httpAgent),
+            signal: scope.signal
+          }, (res) => {
+            const chunks: Uint8Array[] = [];
+            res.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+            res.on('error', reject);
+            res.on('end', () => {
+              const text = Buffer.concat(chunks).toString('utf8');
+              const responseHeaders = res.headers as Record<string, any>;
+              resolve(toTransportResponse<ResponseDataType>(
+                reqData,
+                res.statusCode ?? 0,
+                res.statusMessage ?? '',
+                responseHeaders,
+                parseResponseBody(text, responseHeaders['content-type'], reqData.responseType)
+              ));
+            });
+          });
+          req.on('error', reject);
+          if (payload !== undefined) {
+            req.write(payload);
+          }
+          req.end();
+        });
+      } catch (e: any) {
+        return {
+          status: 0,
+          statusText: '',
+          headers: {},
+          error: toTransportError(e, scope.isTimedOut(), scope.isCancelled())
+        };
+      } finally {
+        scope.dispose();
+      }
+    }
+  };
+}
+
+export const nodeHttpTransport: Transport = createNodeHttpTransport();
@@ -0,0 +1,310 @@
+import { InfrastructurePersistence, RateLimiterConfig, RateLimiterPersistedState } from '../types/index.js';
+import { RateLimiterMode, RateLimitExceededBehavior } from '../enums/index.js';
+import { InfrastructurePersistenceCoordinator } from './infrastructure-persistence.js';
+import { getSettingsSignature } from './hash-utils.js';
+
+type QueuedAcquire = {
+    resolve: () => void;
+    reject: (error: Error) => void;
+    enqueuedAt: number;
+    timeoutId?: ReturnType<typeof setTimeout>;
+};
+
+export class RateLimiter {
+    private readonly config: Required<Omit<RateLimiterConfig, 'persistence'>>;
+    private readonly persistence?: InfrastructurePersistence<RateLimiterPersistedState>;
+    private readonly persistenceCoordinator?: InfrastructurePersistenceCoordinator<RateLimiterPersistedState>;
+
+    private tokens: number;
+    private lastRefillTime: number = Date.now();
+    private requestTimestamps: number[] = [];
+    private queue: QueuedAcquire[] = [];
+    private drainTimer?: ReturnType<typeof setTimeout>;
+
+    private totalRequests: number = 0;
+    private allowedRequests: number = 0;
+    private rejectedRequests: number = 0;
+    private queuedRequests: number = 0;
+    private dequeuedRequests: number = 0;
+    private totalQueueWaitMs: number = 0;
+    private peakQueueLength: number = 0;
+
+    private initialized: boolean = false;
+
+    constructor(config: RateLimiterConfig) {
+        this.config = {
+            mode: config.mode ?? RateLimiterMode.TOKEN_BUCKET,
+            maxRequests: Math.max(1, config.maxRequests),
+            windowMs: Math.max(1, config.windowMs),
+            onLimitExceeded: config.onLimitExceeded ?? RateLimitExceededBehavior.QUEUE,
+            maxQueueSize: config.maxQueueSize ?? Infinity,
+            maxQueueWaitMs: config.maxQueueWaitMs ?? Infinity
+        };
+        this.tokens = this.config.maxRequests;
+        this.persistence = config.persistence;
+        this.persistenceCoordinator = this.persistence
+            ? new InfrastructurePersistenceCoordinator(this.persistence, 'rate-limiter')
+            : undefined;
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        if (this.persistenceCoordinator) {
+            try {
+                const persistedState = await this.persistenceCoordinator.load();
+                if (persistedState) {
+                    this.restoreState(persistedState);
+                }
+            } catch (error) {
+                console.warn('stable-request: Unable to load rate limiter state from persistence.');
+            }
+        }
+        this.initialized = true;
+    }
+
+    private restoreState(persistedState: RateLimiterPersistedState): void {
+        if (persistedState.mode === this.config.mode) {
+            this.tokens = Math.min(this.config.maxRequests, persistedState.tokens);
+            this.lastRefillTime = persistedState.lastRefillTime;
+            this.requestTimestamps = [...persistedState.requestTimestamps];
+        }
+        this.totalRequests = persistedState.totalRequests;
+        this.allowedRequests = persistedState.allowedRequests;
+        this.rejectedRequests = persistedState.rejectedRequests;
+        this.queuedRequests = persistedState.queuedRequests;
+        this.dequeuedRequests = persistedState.dequeuedRequests;
+        this.totalQueueWaitMs = persistedState.totalQueueWaitMs;
+    }
+
+    private getPersistedState(): RateLimiterPersistedState {
+        return {
+            mode: this.config.mode,
+            tokens: this.tokens,
+            lastRefillTime: this.lastRefillTime,
+            requestTimestamps: [...this.requestTimestamps],
+            totalRequests: this.totalRequests,
+            allowedRequests: this.allowedRequests,
+            rejectedRequests: this.rejectedRequests,
+            queuedRequests: this.queuedRequests,
+            dequeuedRequests: this.dequeuedRequests,
+            totalQueueWaitMs: this.totalQueueWaitMs
+        };
+    }
+
+    private async persistState(): Promise<void> {
+        if (this.persistenceCoordinator) {
+            try {
+                await this.persistenceCoordinator.store(this.getPersistedState());
+            } catch (error) {
+                console.warn('stable-request: Unable to store rate limiter state to persistence.');
+            }
+        }
+    }
+
+    private refill(now: number = Date.now()): void {
+        if (this.config.mode === RateLimiterMode.TOKEN_BUCKET) {
+            const elapsed = Math.max(0, now - this.lastRefillTime);
+            const refillRate = this.config.maxRequests / this.config.windowMs;
+            this.tokens = Math.min(this.config.maxRequests, this.tokens + elapsed * refillRate);
+            this.lastRefillTime = now;
+        } else {
+            const windowStart = now - this.config.windowMs;
+            while (this.requestTimestamps.length > 0 && this.requestTimestamps[0] <= windowStart) {
+                this.requestTimestamps.shift();
+            }
+        }
+    }
+
+    private availablePermits(now: number = Date.now()): number {
+        this.refill(now);
+        return this.config.mode === RateLimiterMode.TOKEN_BUCKET
+            ? Math.floor(this.tokens)
+            : this.config.maxRequests - this.requestTimestamps.length;
+    }
+
+    private consume(now: number = Date.now()): boolean {
+        if (this.availablePermits(now) < 1) {
+            return false;
+        }
+        if (this.config.mode === RateLimiterMode.TOKEN_BUCKET) {
+            this.tokens -= 1;
+        } else {
+            this.requestTimestamps.push(now);
+        }
+        this.allowedRequests++;
+        return true;
+    }
+
+    getTimeUntilNextPermit(): number {
+        const now = Date.now();
+        if (this.availablePermits(now) >= 1) {
+            return 0;
+        }
+        if (this.config.mode === RateLimiterMode.TOKEN_BUCKET) {
+            const refillRate = this.config.maxRequests / this.config.windowMs;
+            return Math.ceil((1 - this.tokens) / refillRate);
+        }
+        return Math.max(0, this.requestTimestamps[0] + this.config.windowMs - now);
+    }
+
+    tryAcquire(): boolean {
+        this.totalRequests++;
+        const acquired = this.queue.length === 0 && this.consume();
+        if (!acquired) {
+            this.rejectedRequests++;
+        }
+        this.persistState();
+        return acquired;
+    }
+
+    async acquire(maxWaitMs?: number): Promise<void> {
+        this.totalRequests++;
+        if (this.queue.length === 0 && this.consume()) {
+            this.persistState();
+            return;
+        }
+
+        const waitLimit = Math.min(this.config.maxQueueWaitMs, maxWaitMs ?? Infinity);
+        if (
+            this.config.onLimitExceeded === RateLimitExceededBehavior.REJECT ||
+            this.queue.length >= this.config.maxQueueSize ||
+            (this.queue.length === 0 && this.getTimeUntilNextPermit() > waitLimit)
+        ) {
+            this.rejectedRequests++;
+            this.persistState();
+            throw new RateLimitExceededError(
+                `stable-request: Rate limit of ${this.config.maxRequests} requests per ${this.config.windowMs}ms exceeded.`
+            );
+        }
+
+        this.queuedRequests++;
+        await new Promise<void>((resolve, reject) => {
+            const entry: QueuedAcquire = { resolve, reject, enqueuedAt: Date.now() };
+            if (Number.isFinite(waitLimit)) {
+                entry.timeoutId = setTimeout(() => {
+                    this.queue = this.queue.filter((queued) => queued !== entry);
+                    this.rejectedRequests++;
+                    this.persistState();
+                    reject(new RateLimitExceededError(
+                        `stable-request: Rate limiter queue wait exceeded ${waitLimit}ms.`
+                    ));
+                }, waitLimit);
+            }
+            this.queue.push(entry);
+            this.peakQueueLength = Math.max(this.peakQueueLength, this.queue.length);
+            this.scheduleDrain();
+        });
+    }
+
+    private scheduleDrain(): void {
+        if (this.drainTimer || this.queue.length === 0) {
+            return;
+        }
+        this.drainTimer = setTimeout(() => {
+            this.drainTimer = undefined;
+            this.drainQueue();
+        }, Math.max(1, this.getTimeUntilNextPermit()));
+    }
+
+    private drainQueue(): void {
+        while (this.queue.length > 0 && this.consume()) {
+            const entry = this.queue.shift()!;
+            if (entry.timeoutId) {
+                clearTimeout(entry.timeoutId);
+            }
+            this.dequeuedRequests++;
+            this.totalQueueWaitMs += Date.now() - entry.enqueuedAt;
+            entry.resolve();
+        }
+        this.persistState();
+        this.scheduleDrain();
+    }
+
+    getState(): {
+        mode: RateLimiterMode;
+        availablePermits: number;
+        queueLength: number;
+        peakQueueLength: number;
+        totalRequests: number;
+        allowedRequests: number;
+        rejectedRequests: number;
+        queuedRequests: number;
+        rejectionRate: number;
+        averageQueueWaitMs: number;
+        timeUntilNextPermit: number;
+        config: Required<Omit<RateLimiterConfig, 'persistence'>>;
+    } {
+        return {
+            mode: this.config.mode,
+            availablePermits: Math.max(0, this.availablePermits()),
+            queueLength: this.queue.length,
+            peakQueueLength: this.peakQueueLength,
+            totalRequests: this.totalRequests,
+            allowedRequests: this.allowedRequests,
+            rejectedRequests: this.rejectedRequests,
+            queuedRequests: this.queuedRequests,
+            rejectionRate: this.totalRequests > 0
+                ? (this.rejectedRequests / this.totalRequests) * 100
+                : 0,
+            averageQueueWaitMs: this.dequeuedRequests > 0 ? this.totalQueueWaitMs / this.dequeuedRequests : 0,
+            timeUntilNextPermit: this.getTimeUntilNextPermit(),
+            config: this.config
+        };
+    }
+
+    reset(): void {
+        if (this.drainTimer) {
+            clearTimeout(this.drainTimer);
+            this.drainTimer = undefined;
+        }
+        const pending = this.queue;
+        this.queue = [];
+        pending.forEach((entry) => {
+            if (entry.timeoutId) {
+                clearTimeout(entry.timeoutId);
+            }
+            entry.reject(new RateLimitExceededError('stable-request: Rate limiter was reset.'));
+        });
+        this.tokens = this.config.maxRequests;
+        this.lastRefillTime = Date.now();
+        this.requestTimestamps = [];
+        this.totalRequests = 0;
+        this.allowedRequests = 0;
+        this.rejectedRequests = 0;
+        this.queuedRequests = 0;
+        this.dequeuedRequests = 0;
+        this.totalQueueWaitMs = 0;
+        this.peakQueueLength = 0;
+        this.persistState();
+    }
+
+    async execute<T>(fn: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        return fn();
+    }
+}
+
+export class RateLimitExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RateLimitExceededError';
+    }
+}
+
+const sharedRateLimiters: Map<string, RateLimiter> = new Map();
+
+export function getSharedRateLimiter(config: RateLimiterConfig): RateLimiter {
+    const signature = getSettingsSignature(config);
+    let rateLimiter = sharedRateLimiters.get(signature);
+    if (!rateLimiter) {
+        rateLimiter = new RateLimiter(config);
+        sharedRateLimiters.set(signature, rateLimiter);
+    }
+    return rateLimiter;
+}
+
+export function resetSharedRateLimiters(): void {
+    sharedRateLimiters.forEach((rateLimiter) => rateLimiter.reset());
+    sharedRateLimiters.clear();
+}
@@ -1,28 +1,75 @@
-import axios, { AxiosError, AxiosRequestConfig } from 'axios';
-import { ReqFnResponse, TRIAL_MODE_OPTIONS, CacheConfig, ExecutionContext } from '../types/index.js';
+import { AxiosRequestConfig } from 'axios';
+import { ReqFnResponse, TRIAL_MODE_OPTIONS, CacheConfig, ExecutionContext, RetryPolicy, Transport } from '../types/index.js';
 import { safelyStringify } from './safely-stringify.js';
 import { isRetryableError } from './is-retryable-error.js';
-import { CacheManager, getGlobalCacheManager } from './cache-manager.js';
+import { CacheManager, resolveCacheManager } from './cache-manager.js';
 import { formatLogContext } from './format-log-context.js';
+import { axiosTransport } from './axios-transport.js';
+import { toTransportError } from './transport-utils.js';
+import { getRetryAfterDelay } from './get-retry-after-delay.js';
+
+function withConditionalHeaders<RequestDataType>(
+  cacheManager: CacheManager,
+  reqData: AxiosRequestConfig<RequestDataType>
+): AxiosRequestConfig<RequestDataType> {
+  const revalidationHeaders = cacheManager.getRevalidationHeaders(reqData);
+  return revalidationHeaders
+    ? { ...reqData, headers: { ...(reqData.headers as Record<string, any>), ...revalidationHeaders } }
+    : reqData;
+}
+
+function revalidateInBackground<RequestDataType, ResponseDataType>(
+  cacheManager: CacheManager,
+  reqData: AxiosRequestConfig<RequestDataType>,
+  transport: Transport,
+  executionContext?: ExecutionContext,
+  cacheTags?: string[]
+): void {
+  if (!cacheManager.beginRevalidation(reqData)) {
+    return;
+  }
+  const { signal, ...revalidationReqData } = reqData;
+  transport
+    .request<RequestDataType, ResponseDataType>(withConditionalHeaders(cacheManager, revalidationReqData))
+    .then((res) => {
+      if (res.status === 304) {
+        cacheManager.revalidate(reqData, res.headers);
+      } else if (!res.error) {
+        cacheManager.set(reqData, res.data, res.status, res.statusText, res.headers, cacheTags);
+      }
+    })
+    .catch((e: any) => {
+      console.warn(
+        `${formatLogContext(executionContext)}stable-request: Background cache revalidation failed: ${e?.message}`
+      );
+    })
+    .finally(() => cacheManager.endRevalidation(reqData));
+}
 
 export async function reqFn<RequestDataType = any, ResponseDataType = any>(
   reqData: AxiosRequestConfig<RequestDataType>,
   resReq = false,
   maxSerializableChars = 1000,
   trialMode: TRIAL_MODE_OPTIONS = { enabled: false },
-  cacheConfig?: CacheConfig,
-  executionContext?: ExecutionContext
+  cache?: CacheConfig | CacheManager,
+  executionContext?: ExecutionContext,
+  transport: Transport = axiosTransport,
+  retryPolicy?: RetryPolicy<RequestDataType>,
+  currentAttempt = 1,
+  cacheTags?: string[],
+  cacheRefresh = false
 ): Promise<ReqFnResponse<ResponseDataType>> {
   const startTime = Date.now();
   let stopTime = 0;
   const timestamp = new Date(startTime).toISOString();
 
-  let cacheManager: CacheManager | null = null;
-  if (cacheConfig?.enabled) {
-    cacheManager = getGlobalCacheManager(cacheConfig);
-    
+  const cacheManager = resolveCacheManager(cache);
+  if (cacheManager && !cacheRefresh) {
     const cached = cacheManager.get<ResponseDataType>(reqData);
     if (cached) {
+      if (cached.stale && !trialMode.enabled) {
+        revalidateInBackground(cacheManager, reqData, transport, executionContext, cacheTags);
+      }
       return {
         ok: true,
         isRetryable: true,
@@ -30,7 +77,8 @@ export async function reqFn<RequestDataType = any, ResponseDataType = any>(
         timestamp: new Date(cached.timestamp).toISOString(),
         executionTime: 0,
         statusCode: cached.status,
-        fromCache: true
+        fromCache: true,
+        ...(cached.stale && { stale: true })
       };
     }
   }
@@ -59,27 +107,71 @@ export async function reqFn<RequestDataType = any, ResponseDataType = any>(
       }
     }
 
-    const res = await axios.request<ResponseDataType>(reqData);
+    const res = await transport.request<RequestDataType, ResponseDataType>(
+      cacheManager ? withConditionalHeaders(cacheManager, reqData) : reqData
+    );
     stopTime = Date.now();
 
+    if (cacheManager && res.status === 304) {
+      const revalidated = cacheManager.revalidate<ResponseDataType>(reqData, res.headers);
+      if (revalidated) {
+        return {
+          ok: true,
+          isRetryable: true,
+          data: resReq ? revalidated.data : undefined,
+          timestamp,
+          executionTime: stopTime - startTime,
+          statusCode: revalidated.status,
+          fromCache: true
+        };
+      }
+    }
+
+    if (res.error) {
+      if (res.error.isCancelled) {
+        return {
+          ok: false,
+          error: 'stable-request: Request was cancelled.',
+          isRetryable: false,
+          timestamp,
+          executionTime: stopTime - startTime,
+          statusCode: res.status || 0,
+          fromCache: false
+        };
+      }
+      const retryAfter = getRetryAfterDelay(res.status, res.headers);
+      return {
+        ok: false,
+        error: `stable-request: ${res.data ?? res.error.message}`,
+        isRetryable: isRetryableError(res, trialMode, retryPolicy, reqData, currentAttempt),
+        timestamp,
+        executionTime: stopTime - startTime,
+        statusCode: res.status || 0,
+        fromCache: false,
+        ...(retryAfter && { retryAfter: retryAfter.delay, retryAfterSource: retryAfter.source })
+      };
+    }
+
     if (cacheManager) {
       cacheManager.set(
         reqData,
         res.data,
         res.status,
         res.statusText,
-        res.headers as Record<string, any>
+        res.headers,
+        cacheTags
       );
+      cacheManager.invalidateAfterMutation(reqData);
     }
 
     return resReq
       ? {
           ok: true,
           isRetryable: true,
-          data: res?.data,
+          data: res.data,
           timestamp,
           executionTime: stopTime - startTime,
-          statusCode: res?.status || 200,
+          statusCode: res.status || 200,
           fromCache: false
         }
       : { 
@@ -87,29 +179,18 @@ export async function reqFn<RequestDataType = any, ResponseDataType = any>(
           isRetryable: true, 
           timestamp,
           executionTime: stopTime - startTime,
-          statusCode: res?.status || 200,
+          statusCode: res.status || 200,
           fromCache: false
         };
   } catch (e: any) {
     stopTime = Date.now();
-    if(axios.isCancel(e)) {
-      return {
-        ok: false,
-        error: 'stable-request: Request was cancelled.',
-        isRetryable: false,
-        timestamp,
-        executionTime: stopTime - startTime,
-        statusCode: (e as AxiosError)?.response?.status || 0,
-        fromCache: false
-      };
-    }
     return {
       ok: false,
-      error: `stable-request: ${(e as AxiosError)?.response?.data ?? e?.message}`,
-      isRetryable: isRetryableError(e as AxiosError, trialMode),
+      error: `stable-request: ${e?.message}`,
+      isRetryable: isRetryableError({ status: 0, error: toTransportError(e) }, trialMode, retryPolicy, reqData, currentAttempt),
       timestamp,
       executionTime: stopTime - startTime,
-      statusCode: (e as AxiosError)?.response?.status || 0,
+      statusCode: 0,
       fromCache: false
     };
   }
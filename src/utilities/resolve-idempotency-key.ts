@@ -0,0 +1,80 @@
+import { AxiosRequestConfig } from 'axios';
+import { IDEMPOTENCY_KEY_STRATEGIES, REQUEST_METHODS } from '../enums/index.js';
+import { BufferLike, ExecutionContext, IdempotencyConfig, StableBufferReplayHandler } from '../types/index.js';
+import { DEFAULT_IDEMPOTENCY_KEY_HEADER, DEFAULT_IDEMPOTENT_KEY_METHODS } from '../constants/index.js';
+import { withBuffer } from './buffer-utils.js';
+import { generateUUID, hashString, stableStringify } from './hash-utils.js';
+
+const findHeaderValue = (headers: Record<string, any> | undefined, name: string): string | undefined => {
+  if (!headers) return undefined;
+  const lowerCaseName = name.toLowerCase();
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === lowerCaseName);
+  const value = key !== undefined ? headers[key] : undefined;
+  return value !== undefined && value !== null && value !== '' ? String(value) : undefined;
+};
+
+export const generateIdempotencyKey = <RequestDataType = any>(
+  reqData: AxiosRequestConfig<RequestDataType>,
+  config: IdempotencyConfig<RequestDataType>
+): string => {
+  if (typeof config.key === 'function') {
+    return config.key(reqData);
+  }
+  if (config.key) {
+    return config.key;
+  }
+  if (config.keyStrategy === IDEMPOTENCY_KEY_STRATEGIES.BODY_HASH) {
+    const method = (reqData.method ?? REQUEST_METHODS.GET).toUpperCase();
+    return hashString(`${method}:${reqData.baseURL ?? ''}${reqData.url ?? ''}:${stableStringify(reqData.params)}:${stableStringify(reqData.data)}`);
+  }
+  return generateUUID();
+};
+
+export async function resolveIdempotencyKey<RequestDataType = any>(
+  reqData: AxiosRequestConfig<RequestDataType>,
+  config: IdempotencyConfig<RequestDataType> | undefined,
+  commonBuffer?: BufferLike,
+  executionContext: ExecutionContext = {}
+): Promise<{ headerName: string; key: string } | null> {
+  if (!config?.enabled) {
+    return null;
+  }
+  const method = (reqData.method ?? REQUEST_METHODS.GET).toUpperCase() as REQUEST_METHODS;
+  if (!(config.methods ?? DEFAULT_IDEMPOTENT_KEY_METHODS).includes(method)) {
+    return null;
+  }
+
+  const headerName = config.headerName ?? DEFAULT_IDEMPOTENCY_KEY_HEADER;
+  const providedKey = findHeaderValue(reqData.headers as Record<string, any>, headerName);
+  if (!config.bufferKey) {
+    return { headerName, key: providedKey ?? generateIdempotencyKey(reqData, config) };
+  }
+
+  const bufferKey = config.bufferKey;
+  const key = await withBuffer(
+    commonBuffer,
+    (state) => {
+      const storedKey = state[bufferKey];
+      if (typeof storedKey === 'string' && storedKey && !providedKey) {
+        return storedKey;
+      }
+      const resolvedKey = providedKey ?? generateIdempotencyKey(reqData, config);
+      state[bufferKey] = resolvedKey;
+      return resolvedKey;
+    },
+    {
+      ...executionContext,
+      activity: 'idempotency',
+      hookName: 'idempotencyKey',
+      hookParams: { headerName, bufferKey }
+    }
+  );
+  return { headerName, key };
+}
+
+export const replayIdempotencyKey: StableBufferReplayHandler = (state, log) => {
+  const bufferKey = log.hookParams?.bufferKey;
+  if (bufferKey && log.stateAfter?.[bufferKey] !== undefined) {
+    state[bufferKey] = log.stateAfter[bufferKey];
+  }
+};
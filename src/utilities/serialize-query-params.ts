@@ -0,0 +1,55 @@
+import { QUERY_ARRAY_FORMATS } from '../enums/index.js';
+import { QuerySerializationOptions } from '../types/index.js';
+
+const serializeParamValue = (value: any): string => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+export const serializeQueryParams = (
+  params: Record<string, any>,
+  options: QuerySerializationOptions = {}
+): string => {
+  if (options.serializer) {
+    return options.serializer(params);
+  }
+
+  const { arrayFormat = QUERY_ARRAY_FORMATS.BRACKETS, encode = true, skipNulls = true } = options;
+  const format = (value: string) => (encode ? encodeURIComponent(value) : value);
+  const parts: string[] = [];
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || (value === null && skipNulls)) {
+      continue;
+    }
+    if (value === null) {
+      parts.push(`${format(key)}=`);
+      continue;
+    }
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => item !== undefined && item !== null).map(serializeParamValue);
+      if (arrayFormat === QUERY_ARRAY_FORMATS.COMMA) {
+        if (items.length > 0) {
+          parts.push(`${format(key)}=${items.map(format).join(',')}`);
+        }
+        continue;
+      }
+      items.forEach((item, index) => {
+        const itemKey = arrayFormat === QUERY_ARRAY_FORMATS.INDICES
+          ? `${key}[${index}]`
+          : arrayFormat === QUERY_ARRAY_FORMATS.REPEAT
+            ? key
+            : `${key}[]`;
+        parts.push(`${format(itemKey)}=${format(item)}`);
+      });
+      continue;
+    }
+    parts.push(`${format(key)}=${format(serializeParamValue(value))}`);
+  }
+  return parts.join('&');
+};
@@ -0,0 +1,72 @@
+import { AxiosRequestConfig } from 'axios';
+import { CacheConfig, STABLE_REQUEST } from '../types/index.js';
+import { CacheManager, resolveCacheManager } from './cache-manager.js';
+import { getConfigSignature, getSettingsSignature, hashString } from './hash-utils.js';
+
+const RESULT_SHAPING_OPTIONS = [
+  'resReq',
+  'attempts',
+  'performAllAttempts',
+  'wait',
+  'maxAllowedWait',
+  'retryStrategy',
+  'jitter',
+  'respectRetryAfter',
+  'retryPolicy',
+  'deadlineMs',
+  'deadline',
+  'hedging',
+  'idempotency',
+  'responseAnalyzer',
+  'finalErrorAnalyzer',
+  'throwOnFailedErrorAnalysis',
+  'fallback',
+  'cacheRefresh',
+  'trialMode',
+  'transport'
+] as const;
+
+const inFlightRequests = new Map<string, Promise<any>>();
+let defaultKeyManager: CacheManager | null = null;
+
+export function getSingleFlightKey(
+  reqConfig: AxiosRequestConfig,
+  cache?: CacheConfig | CacheManager | null,
+  options: Partial<STABLE_REQUEST> = {}
+): string | null {
+  const cacheManager = resolveCacheManager(cache ?? undefined);
+  if (!cacheManager && !defaultKeyManager) {
+    defaultKeyManager = new CacheManager({ enabled: true });
+  }
+  const requestKey = (cacheManager ?? defaultKeyManager!).getCacheKey(reqConfig);
+  if (!requestKey) {
+    return null;
+  }
+  const shapingOptions: Record<string, unknown> = { resReq: !!options.resReq };
+  RESULT_SHAPING_OPTIONS.forEach((name) => {
+    if (name !== 'resReq') {
+      shapingOptions[name] = options[name];
+    }
+  });
+  // Hooks only count by presence, so inline hooks still coalesce; callers share the first caller's hooks.
+  const signature = `${getConfigSignature(cacheManager ?? undefined)}:${getSettingsSignature(shapingOptions)}`;
+  return `${requestKey}:${hashString(signature)}`;
+}
+
+export async function executeSingleFlight<T>(
+  key: string,
+  execute: () => Promise<T>
+): Promise<{ result: T; coalesced: boolean }> {
+  const inFlight = inFlightRequests.get(key);
+  if (inFlight) {
+    return { result: await inFlight, coalesced: true };
+  }
+
+  const request = execute();
+  inFlightRequests.set(key, request);
+  try {
+    return { result: await request, coalesced: false };
+  } finally {
+    inFlightRequests.delete(key);
+  }
+}
@@ -0,0 +1,172 @@
+import { AxiosRequestConfig } from 'axios';
+import { TransportError, TransportResponse } from '../types/index.js';
+import { serializeQueryParams } from './serialize-query-params.js';
+
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z\d+\-.]*:\/\//i;
+
+export const buildRequestUrl = (reqData: AxiosRequestConfig): string => {
+  const path = reqData.url ?? '';
+  const base = (reqData.baseURL ?? '').replace(/\/+$/, '');
+  const url = ABSOLUTE_URL_PATTERN.test(path) || !base
+    ? path
+    : `${base}${path && !path.startsWith('/') ? '/' : ''}${path}`;
+
+  if (!reqData.params || Object.keys(reqData.params).length === 0) {
+    return url;
+  }
+
+  const serializer = reqData.paramsSerializer;
+  const query = typeof serializer === 'function'
+    ? (serializer as (params: Record<string, any>) => string)(reqData.params)
+    : typeof serializer?.serialize === 'function'
+      ? serializer.serialize(reqData.params, serializer)
+      : serializeQueryParams(reqData.params);
+
+  if (!query) {
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
+
+const hasHeader = (headers: Record<string, any>, name: string): boolean => {
+  return Object.keys(headers).some((key) => key.toLowerCase() === name);
+};
+
+export const serializeRequestBody = (
+  data: any,
+  headers: Record<string, any> = {}
+): { body: string | Uint8Array | ArrayBuffer | URLSearchParams | undefined; headers: Record<string, string> } => {
+  const resolvedHeaders: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value !== undefined && value !== null) {
+      resolvedHeaders[key] = String(value);
+    }
+  }
+
+  if (data === undefined || data === null) {
+    return { body: undefined, headers: resolvedHeaders };
+  }
+
+  if (
+    typeof data === 'string' ||
+    data instanceof Uint8Array ||
+    data instanceof ArrayBuffer ||
+    data instanceof URLSearchParams
+  ) {
+    return { body: data, headers: resolvedHeaders };
+  }
+
+  if (!hasHeader(resolvedHeaders, 'content-type')) {
+    resolvedHeaders['Content-Type'] = 'application/json';
+  }
+  return { body: JSON.stringify(data), headers: resolvedHeaders };
+};
+
+export const parseResponseBody = (
+  text: string,
+  contentType?: string,
+  responseType?: AxiosRequestConfig['responseType']
+): any => {
+  if (responseType === 'text' || text === '') {
+    return text;
+  }
+  const looksLikeJson = (contentType ?? '').includes('json') || /^\s*[\[{]/.test(text);
+  if (responseType === 'json' || looksLikeJson) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+};
+
+export const toTransportResponse = <ResponseDataType = any>(
+  reqData: AxiosRequestConfig,
+  status: number,
+  statusText: string,
+  headers: Record<string, any>,
+  data: ResponseDataType
+): TransportResponse<ResponseDataType> => {
+  const validateStatus = reqData.validateStatus ?? ((code: number) => code >= 200 && code < 300);
+  if (validateStatus(status)) {
+    return { status, statusText, headers, data };
+  }
+  return {
+    status,
+    statusText,
+    headers,
+    data,
+    error: {
+      message: `Request failed with status code ${status}`,
+      code: status >= 500 ? 'ERR_BAD_RESPONSE' : 'ERR_BAD_REQUEST'
+    }
+  };
+};
+
+export const toTransportError = (error: any, timedOut = false, cancelled = false): TransportError => {
+  if (timedOut) {
+    return {
+      message: error?.message ?? 'Request timed out.',
+      code: 'ECONNABORTED',
+      isTimeout: true,
+      cause: error
+    };
+  }
+  if (cancelled) {
+    return {
+      message: 'Request was cancelled.',
+      code: 'ERR_CANCELED',
+      isCancelled: true,
+      cause: error
+    };
+  }
+  return {
+    message: error?.message ?? String(error),
+    code: error?.code ?? error?.cause?.code,
+    cause: error
+  };
+};
+
+export const createAbortScope = (
+  signal?: AbortController['signal'],
+  timeoutMs?: number
+): {
+  signal: AbortController['signal'];
+  isTimedOut: () => boolean;
+  isCancelled: () => boolean;
+  dispose: () => void;
+} => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let cancelled = false;
+  const onAbort = () => {
+    cancelled = true;
+    controller.abort();
+  };
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timeoutId = timeoutMs && timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    isTimedOut: () => timedOut,
+    isCancelled: () => cancelled,
+    dispose: () => {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+};
@@ -0,0 +1,714 @@
+/**
+ * Test Suite: CacheManager
+ * Tests response caching modes and their integration with stableRequest
+ */
+
+import {
+  stableRequest,
+  CacheManager,
+  CacheWarmer,
+  CacheEvictionPolicy,
+  REQUEST_METHODS,
+  getGlobalCacheManager,
+  getNamespacedCacheManager,
+  resetGlobalCacheManager
+} from '../src';
+import type { CacheManagerPersistedState, CachePersistenceOperation } from '../src';
+import { createFakeTransport } from './helpers/fake-transport';
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('CacheManager', () => {
+  const reqConfig = { method: 'get', baseURL: 'https://api.example.com', url: '/items' };
+
+  beforeEach(() => {
+    resetGlobalCacheManager();
+    jest.useRealTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Stale Caching Modes', () => {
+    it('should serve expired entries as stale within the stale-while-revalidate window', () => {
+      jest.useFakeTimers({ now: 0 });
+      const cache = new CacheManager({ enabled: true, ttl: 1000, staleWhileRevalidate: 5000 });
+      cache.set(reqConfig, { id: 1 }, 200, 'OK', {});
+
+      jest.setSystemTime(3000);
+      const stale = cache.get(reqConfig);
+      expect(stale?.data).toEqual({ id: 1 });
+      expect(stale?.stale).toBe(true);
+
+      jest.setSystemTime(7000);
+      expect(cache.get(reqConfig)).toBeNull();
+      expect(cache.getStats().staleHits).toBe(1);
+      expect(cache.getStats().expirations).toBe(1);
+    });
+
+    it('should keep entries for stale-if-error without serving them as hits', () => {
+      jest.useFakeTimers({ now: 0 });
+      const cache = new CacheManager({ enabled: true, ttl: 1000, staleIfError: 5000 });
+      cache.set(reqConfig, { id: 1 }, 200, 'OK', {});
+
+      jest.setSystemTime(3000);
+      expect(cache.get(reqConfig)).toBeNull();
+      expect(cache.prune()).toBe(0);
+      expect(cache.getStale(reqConfig)?.stale).toBe(true);
+
+      jest.setSystemTime(7000);
+      expect(cache.getStale(reqConfig)).toBeNull();
+      expect(cache.prune()).toBe(1);
+    });
+
+    it('should honour stale-while-revalidate and stale-if-error Cache-Control directives', () => {
+      jest.useFakeTimers({ now: 0 });
+      const cache = new CacheManager({ enabled: true });
+      cache.set(reqConfig, { id: 1 }, 200, 'OK', {
+        'cache-control': 'max-age=1, stale-while-revalidate=2, stale-if-error=10'
+      });
+
+      jest.setSystemTime(2500);
+      expect(cache.get(reqConfig)?.stale).toBe(true);
+
+      jest.setSystemTime(5000);
+      expect(cache.get(reqConfig)).toBeNull();
+      expect(cache.getStale(reqConfig)?.data).toEqual({ id: 1 });
+    });
+
+    it('should only count expired entries as stale-if-error hits', () => {
+      jest.useFakeTimers({ now: 0 });
+      const cache = new CacheManager({ enabled: true, ttl: 1000, staleIfError: 5000 });
+      cache.set(reqConfig, { id: 1 }, 200, 'OK', {});
+
+      expect(cache.getStale(reqConfig)?.stale).toBe(false);
+      expect(cache.getStats().staleIfErrorHits).toBe(0);
+
+      jest.setSystemTime(2000);
+      expect(cache.getStale(reqConfig)?.stale).toBe(true);
+      expect(cache.getStats().staleIfErrorHits).toBe(1);
+    });
+
+    it('should serve stale data and refresh it in the background', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 200, data: { version: 1 } },
+        { status: 200, data: { version: 2 } }
+      ]);
+      const options = {
+        reqData: { hostname: 'api.example.com', path: '/swr' as const, method: REQUEST_METHODS.GET },
+        resReq: true,
+        transport,
+        cache: { enabled: true, ttl: 20, staleWhileRevalidate: 60000 }
+      };
+
+      const first = await stableRequest(options);
+      expect(first.fromCache).toBeUndefined();
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      const stale = await stableRequest(options);
+      expect(stale.data).toEqual({ version: 1 });
+      expect(stale.fromCache).toBe(true);
+      expect(stale.stale).toBe(true);
+
+      await flushPromises();
+      expect(request).toHaveBeenCalledTimes(2);
+
+      const refreshed = await stableRequest(options);
+      expect(refreshed.data).toEqual({ version: 2 });
+      expect(refreshed.fromCache).toBe(true);
+      expect(refreshed.stale).toBeUndefined();
+    });
+
+    it('should serve a stale entry when all attempts fail', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 200, data: { version: 1 } },
+        { status: 503 }
+      ]);
+      const options = {
+        reqData: { hostname: 'api.example.com', path: '/sie' as const, method: REQUEST_METHODS.GET },
+        resReq: true,
+        attempts: 2,
+        wait: 1,
+        transport,
+        cache: { enabled: true, ttl: 20, staleIfError: 60000 }
+      };
+
+      await stableRequest(options);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      const result = await stableRequest(options);
+
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ version: 1 });
+      expect(result.fromCache).toBe(true);
+      expect(result.stale).toBe(true);
+      expect(result.metrics?.failedAttempts).toBe(2);
+      expect(result.metrics?.infrastructureMetrics?.cache?.staleIfErrorHits).toBe(1);
+    });
+  });
+
+  describe('Cache Keys', () => {
+    it('should key entries by the request headers named in the Vary response header', () => {
+      const cache = new CacheManager({ enabled: true, keyHeaders: [] });
+      const english = { ...reqConfig, headers: { 'X-Locale': 'en' } };
+      const french = { ...reqConfig, headers: { 'X-Locale': 'fr' } };
+
+      cache.set(english, { greeting: 'hello' }, 200, 'OK', { vary: 'X-Locale' });
+
+      expect(cache.get(english)?.data).toEqual({ greeting: 'hello' });
+      expect(cache.get(french)).toBeNull();
+
+      cache.set(french, { greeting: 'bonjour' }, 200, 'OK', { vary: 'X-Locale' });
+      expect(cache.get(english)?.data).toEqual({ greeting: 'hello' });
+      expect(cache.get(french)?.data).toEqual({ greeting: 'bonjour' });
+    });
+
+    it('should not cache responses with Vary: *', () => {
+      const cache = new CacheManager({ enabled: true });
+      cache.set(reqConfig, { id: 1 }, 200, 'OK', { vary: '*' });
+      expect(cache.get(reqConfig)).toBeNull();
+    });
+
+    it('should cache opted-in POST requests keyed by a canonical body hash', () => {
+      const cache = new CacheManager({
+        enabled: true,
+        includeBodyInKey: true,
+        cacheableMethods: [REQUEST_METHODS.POST]
+      });
+      const query = { method: 'post', baseURL: 'https://api.example.com', url: '/graphql' };
+
+      cache.set({ ...query, data: { query: '{ items }', variables: { a: 1, b: 2 } } }, { items: [] }, 200, 'OK', {});
+
+      expect(cache.get({ ...query, data: '{"variables":{"b":2,"a":1},"query":"{ items }"}' })?.data).toEqual({ items: [] });
+      expect(cache.get({ ...query, data: { query: '{ other }' } })).toBeNull();
+    });
+
+    it('should key opted-in POST requests by body even without includeBodyInKey', () => {
+      const cache = new CacheManager({ enabled: true, cacheableMethods: [REQUEST_METHODS.POST] });
+      const query = { method: 'post', baseURL: 'https://api.example.com', url: '/graphql' };
+
+      cache.set({ ...query, data: { query: '{ users }' } }, { users: [] }, 200, 'OK', {});
+
+      expect(cache.get({ ...query, data: { query: '{ orders }' } })).toBeNull();
+      expect(cache.get({ ...query, data: { query: '{ users }' } })?.data).toEqual({ users: [] });
+    });
+
+    it('should build keys from the configured keyHeaders and ignoreParams', () => {
+      const cache = new CacheManager({
+        enabled: true,
+        keyHeaders: ['x-tenant'],
+        ignoreParams: ['_ts', 'tracking']
+      });
+
+      cache.set(
+        { ...reqConfig, url: '/items?_ts=1', params: { page: 1, tracking: 'a' }, headers: { 'X-Tenant': 't1', Authorization: 'a' } },
+        { page: 1 },
+        200,
+        'OK',
+        {}
+      );
+
+      expect(
+        cache.get({ ...reqConfig, url: '/items?_ts=2', params: { tracking: 'b', page: 1 }, headers: { 'x-tenant': 't1', Authorization: 'b' } })?.data
+      ).toEqual({ page: 1 });
+      expect(cache.get({ ...reqConfig, params: { page: 1 }, headers: { 'x-tenant': 't2' } })).toBeNull();
+      expect(cache.get({ ...reqConfig, params: { page: 2 }, headers: { 'x-tenant': 't1' } })).toBeNull();
+    });
+  });
+
+  describe('Cache Instances', () => {
+    it('should use a CacheManager instance passed as the cache option', async () => {
+      const { transport, request } = createFakeTransport([{ status: 200, data: { id: 1 } }]);
+      const usersCache = new CacheManager({ enabled: true, ttl: 60000 });
+      const options = {
+        reqData: { hostname: 'users.example.com', path: '/users/1' as const },
+        resReq: true,
+        transport,
+        cache: usersCache
+      };
+
+      await stableRequest(options);
+      const cached = await stableRequest(options);
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(cached.fromCache).toBe(true);
+      expect(usersCache.getStats().hits).toBe(1);
+      expect(cached.metrics?.infrastructureMetrics?.cache?.hits).toBe(1);
+      expect(getGlobalCacheManager()).toBeNull();
+    });
+
+    it('should isolate caches and settings by namespace', async () => {
+      const { transport, request } = createFakeTransport([{ status: 200, data: { ok: true } }]);
+      const reqData = { hostname: 'api.example.com', path: '/shared' as const };
+
+      await stableRequest({ reqData, transport, cache: { enabled: true, namespace: 'catalogue', maxSize: 5 } });
+      await stableRequest({ reqData, transport, cache: { enabled: true, namespace: 'pricing', maxSize: 50 } });
+      const cached = await stableRequest({ reqData, transport, cache: { enabled: true, namespace: 'catalogue' } });
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(cached.fromCache).toBe(true);
+      expect(getNamespacedCacheManager('catalogue')?.getStats().maxSize).toBe(5);
+      expect(getNamespacedCacheManager('pricing')?.getStats().maxSize).toBe(50);
+      expect(getNamespacedCacheManager('pricing')?.getStats().hits).toBe(0);
+    });
+
+    it('should honour the settings of each plain cache config', async () => {
+      const { transport, request } = createFakeTransport([{ status: 200, data: { ok: true } }]);
+      const shortLived = { enabled: true, ttl: 20 };
+      const longLived = { enabled: true, ttl: 60000 };
+      const call = (path: '/short' | '/long', cache: typeof shortLived) =>
+        stableRequest({ reqData: { hostname: 'api.example.com', path }, transport, cache });
+
+      await call('/short', shortLived);
+      await call('/long', longLived);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      const short = await call('/short', { ...shortLived });
+      const long = await call('/long', { ...longLived });
+
+      expect(short.fromCache).toBeUndefined();
+      expect(long.fromCache).toBe(true);
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(short.metrics?.infrastructureMetrics?.cache?.currentSize).toBe(1);
+      expect(long.metrics?.infrastructureMetrics?.cache?.currentSize).toBe(1);
+    });
+
+    it('should share one cache when each call declares its function settings inline', async () => {
+      const { transport, request } = createFakeTransport([{ status: 200, data: { ok: true } }]);
+      const call = () => stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/inline' },
+        transport,
+        cache: {
+          enabled: true,
+          keyGenerator: (config) => `inline:${config.url}`,
+          tags: () => ['inline'],
+          persistence: { load: () => null, store: () => {} }
+        }
+      });
+
+      const results = [await call(), await call(), await call()];
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.fromCache)).toEqual([undefined, true, true]);
+    });
+
+    it('should bound the shared caches kept for distinct plain configs', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const first = getGlobalCacheManager({ enabled: true, ttl: 1 });
+
+      for (let ttl = 2; ttl <= 60; ttl++) {
+        getGlobalCacheManager({ enabled: true, ttl });
+      }
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('CacheManager instance or a namespace');
+      expect(getGlobalCacheManager({ enabled: true, ttl: 1 })).not.toBe(first);
+      expect(getGlobalCacheManager()).toBe(first);
+      warn.mockRestore();
+    });
+
+    it('should warn when a namespace is reused with different settings', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { transport } = createFakeTransport([{ status: 200, data: { ok: true } }]);
+      const reqData = { hostname: 'api.example.com', path: '/shared' as const };
+
+      await stableRequest({ reqData, transport, cache: { enabled: true, namespace: 'catalogue', ttl: 1000 } });
+      await stableRequest({ reqData, transport, cache: { enabled: true, namespace: 'catalogue' } });
+      expect(warn).not.toHaveBeenCalled();
+
+      await stableRequest({ reqData, transport, cache: { enabled: true, namespace: 'catalogue', ttl: 5000 } });
+      await stableRequest({ reqData, transport, cache: { enabled: true, namespace: 'catalogue', ttl: 5000 } });
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('"catalogue"');
+      expect(warn.mock.calls[0][0]).toContain('ttl');
+      warn.mockRestore();
+    });
+  });
+
+  describe('Eviction Policies', () => {
+    const item = (id: number) => ({ ...reqConfig, url: `/items/${id}` });
+
+    it('should evict the least recently used entry by default', () => {
+      const cache = new CacheManager({ enabled: true, maxSize: 3 });
+      [1, 2, 3].forEach((id) => cache.set(item(id), { id }, 200, 'OK', {}));
+
+      cache.get(item(1));
+      cache.set(item(4), { id: 4 }, 200, 'OK', {});
+
+      expect(cache.get(item(2))).toBeNull();
+      expect(cache.get(item(1))?.data).toEqual({ id: 1 });
+      expect(cache.getStats().evictions).toBe(1);
+    });
+
+    it('should evict the least frequently used entry with the LFU policy', () => {
+      const cache = new CacheManager({ enabled: true, maxSize: 3, evictionPolicy: CacheEvictionPolicy.LFU });
+      [1, 2, 3].forEach((id) => cache.set(item(id), { id }, 200, 'OK', {}));
+
+      cache.get(item(1));
+      cache.get(item(1));
+      cache.get(item(2));
+      cache.get(item(3));
+      cache.get(item(3));
+      cache.set(item(4), { id: 4 }, 200, 'OK', {});
+
+      expect(cache.get(item(2))).toBeNull();
+      expect(cache.get(item(1))).not.toBeNull();
+      expect(cache.get(item(3))).not.toBeNull();
+      expect(cache.get(item(4))).not.toBeNull();
+    });
+
+    it('should evict the entry closest to expiry with the TTL policy', () => {
+      const cache = new CacheManager({ enabled: true, maxSize: 3, evictionPolicy: CacheEvictionPolicy.TTL });
+      cache.set(item(1), { id: 1 }, 200, 'OK', { 'cache-control': 'max-age=300' });
+      cache.set(item(2), { id: 2 }, 200, 'OK', { 'cache-control': 'max-age=10' });
+      cache.set(item(3), { id: 3 }, 200, 'OK', { 'cache-control': 'max-age=60' });
+
+      cache.set(item(4), { id: 4 }, 200, 'OK', { 'cache-control': 'max-age=120' });
+      cache.set(item(5), { id: 5 }, 200, 'OK', { 'cache-control': 'max-age=120' });
+
+      expect(cache.get(item(2))).toBeNull();
+      expect(cache.get(item(3))).toBeNull();
+      expect(cache.get(item(1))).not.toBeNull();
+    });
+
+    it('should bound the cache by estimated size with maxBytes', () => {
+      const cache = new CacheManager({ enabled: true, maxSize: 100, maxBytes: 250 });
+      const payload = (id: number) => ({ id, body: 'x'.repeat(80) });
+
+      [1, 2, 3].forEach((id) => cache.set(item(id), payload(id), 200, 'OK', {}));
+
+      const stats = cache.getStats();
+      expect(stats.size).toBe(2);
+      expect(stats.bytes).toBeLessThanOrEqual(250);
+      expect(cache.get(item(1))).toBeNull();
+
+      cache.set(item(9), { body: 'x'.repeat(500) }, 200, 'OK', {});
+      expect(cache.get(item(9))).toBeNull();
+      expect(cache.getStats().size).toBe(2);
+    });
+
+    it.each([CacheEvictionPolicy.LRU, CacheEvictionPolicy.LFU, CacheEvictionPolicy.TTL])(
+      'should handle tens of thousands of operations quickly with the %s policy',
+      (evictionPolicy) => {
+        const cache = new CacheManager({ enabled: true, maxSize: 10000, evictionPolicy });
+        const keyedConfigs = Array.from({ length: 30000 }, (_, id) => ({
+          ...reqConfig,
+          url: `/items/${id}`
+        }));
+
+        const startTime = Date.now();
+        keyedConfigs.forEach((config, id) => {
+          cache.set(config, { id }, 200, 'OK', {});
+          cache.get(keyedConfigs[Math.max(0, id - 5000)]);
+        });
+        const elapsed = Date.now() - startTime;
+
+        expect(cache.getStats().size).toBe(10000);
+        expect(cache.getStats().evictions).toBe(20000);
+        expect(elapsed).toBeLessThan(10000);
+      }
+    );
+  });
+
+  describe('Invalidation', () => {
+    const entry = (url: string, tags: string[] = []) => ({ config: { ...reqConfig, url }, tags });
+
+    const populate = (cache: CacheManager) => {
+      [
+        entry('/users/1', ['users', 'user:1']),
+        entry('/users/2', ['users']),
+        entry('/orders/7?expand=items', ['orders']),
+        entry('/reports/2024')
+      ].forEach(({ config, tags }) => cache.set(config, { url: config.url }, 200, 'OK', {}, tags));
+    };
+
+    it('should invalidate entries by tag, including tags from CacheConfig', () => {
+      const cache = new CacheManager({ enabled: true, tags: (config) => [`host:${config.baseURL}`] });
+      populate(cache);
+
+      expect(cache.invalidateByTag('user:1')).toBe(1);
+      expect(cache.invalidateByTag(['users', 'orders'])).toBe(2);
+      expect(cache.invalidateByTag('users')).toBe(0);
+      expect(cache.getStats().size).toBe(1);
+      expect(cache.invalidateByTag('host:https://api.example.com')).toBe(1);
+      expect(cache.getStats().invalidations).toBe(4);
+    });
+
+    it('should invalidate entries by URL prefix, pattern and predicate', () => {
+      const cache = new CacheManager({ enabled: true });
+      populate(cache);
+
+      expect(cache.invalidateByPrefix('/users/')).toBe(2);
+      expect(cache.invalidateByPattern(/\/orders\/\d+$/)).toBe(1);
+      expect(cache.invalidateWhere((cached) => cached.data.url === '/reports/2024')).toBe(1);
+      expect(cache.getStats().size).toBe(0);
+
+      populate(cache);
+      expect(cache.invalidateByPrefix('https://api.example.com/users')).toBe(2);
+    });
+
+    it('should invalidate cached reads after a successful mutation of the same resource', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 200, data: { id: 1, name: 'Ada' } },
+        { status: 200, data: [{ id: 1 }] },
+        { status: 204 },
+        { status: 200, data: { id: 1, name: 'Grace' } }
+      ]);
+      const cache = new CacheManager({ enabled: true });
+      const user = { hostname: 'api.example.com', path: '/users/1' as const };
+
+      await stableRequest({ reqData: user, resReq: true, transport, cache });
+      await stableRequest({ reqData: { hostname: 'api.example.com', path: '/users' as const }, transport, cache, cacheTags: ['users'] });
+      await stableRequest({ reqData: { ...user, method: REQUEST_METHODS.PUT, body: { name: 'Grace' } }, transport, cache });
+
+      const reread = await stableRequest({ reqData: user, resReq: true, transport, cache });
+
+      expect(request).toHaveBeenCalledTimes(4);
+      expect(reread.fromCache).toBeUndefined();
+      expect(reread.data).toEqual({ id: 1, name: 'Grace' });
+      expect(cache.getStats().invalidations).toBe(1);
+      expect(cache.getStats().size).toBe(2);
+      expect(cache.invalidateByTag('users')).toBe(1);
+    });
+  });
+
+  describe('Cache Warming', () => {
+    const hot = (path: `/${string}`) => ({ reqData: { hostname: 'api.example.com', path }, resReq: true });
+
+    it('should warm registered requests and refresh them shortly before they expire', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 200, data: { version: 1 } },
+        { status: 200, data: { version: 2 } }
+      ]);
+      const cache = new CacheManager({ enabled: true, ttl: 100 });
+      const warmer = new CacheWarmer({ cache, refreshAheadMs: 50 });
+      warmer.register({ ...hot('/dashboard'), transport });
+
+      await warmer.refreshDue();
+      await warmer.refreshDue();
+      expect(request).toHaveBeenCalledTimes(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      await warmer.refreshDue();
+
+      expect(request).toHaveBeenCalledTimes(2);
+      const served = await stableRequest({ ...hot('/dashboard'), transport, cache });
+      expect(served.fromCache).toBe(true);
+      expect(served.data).toEqual({ version: 2 });
+      expect(cache.getStats().refreshes).toBe(2);
+    });
+
+    it('should keep the existing entry and report failed refreshes', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 200, data: { version: 1 } },
+        { status: 503 }
+      ]);
+      const cache = new CacheManager({ enabled: true, ttl: 200 });
+      const warmer = new CacheWarmer({ cache, refreshAheadMs: 100, failureBackoffMs: 60000 });
+      warmer.register({ ...hot('/expensive'), attempts: 2, wait: 1, transport });
+
+      await warmer.refreshDue();
+      await new Promise((resolve) => setTimeout(resolve, 120));
+      await warmer.refreshDue();
+      await warmer.refreshDue();
+
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(cache.peek({ method: 'GET', baseURL: 'https://api.example.com:443', url: '/expensive' })?.data).toEqual({ version: 1 });
+      expect(cache.getStats().refreshes).toBe(1);
+      expect(cache.getStats().refreshFailures).toBe(1);
+    });
+
+    it('should not spin when the TTL is shorter than the refresh-ahead window', async () => {
+      const { transport, request } = createFakeTransport([{ status: 200, data: { version: 1 } }]);
+      const cache = new CacheManager({ enabled: true, ttl: 60000 });
+      const warmer = new CacheWarmer({ cache, refreshAheadMs: 120000 });
+      warmer.register({ ...hot('/short-lived'), transport });
+
+      await warmer.refreshDue();
+      await warmer.refreshDue();
+      await warmer.refreshDue();
+
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a fallback response as a failed refresh', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { transport, request } = createFakeTransport([
+        { status: 200, data: { version: 1 } },
+        { status: 503 }
+      ]);
+      const cache = new CacheManager({ enabled: true, ttl: 200 });
+      const warmer = new CacheWarmer({ cache, refreshAheadMs: 100, failureBackoffMs: 60000 });
+      warmer.register({ ...hot('/fallback'), fallback: { value: { version: 0 } }, transport });
+
+      await warmer.refreshDue();
+      await new Promise((resolve) => setTimeout(resolve, 120));
+      await warmer.refreshDue();
+      await warmer.refreshDue();
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().refreshFailures).toBe(1);
+      expect(cache.peek({ method: 'GET', baseURL: 'https://api.example.com:443', url: '/fallback' })?.data).toEqual({ version: 1 });
+      warn.mockRestore();
+    });
+
+    it('should catch errors from scheduled refreshes', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const warmer = new CacheWarmer({ cache: { enabled: true, namespace: 'failing-warmer' }, checkIntervalMs: 1000 });
+      jest.spyOn(warmer, 'refreshDue').mockRejectedValue(new Error('peek failed'));
+
+      warmer.start();
+      await flushPromises();
+      warmer.stop();
+
+      expect(warn).toHaveBeenCalledWith('stable-request: Scheduled cache refresh failed.', expect.any(Error));
+      warn.mockRestore();
+    });
+
+    it('should limit concurrent refreshes and stop its schedule', async () => {
+      const { transport, request, peak } = createFakeTransport([{ status: 200, data: {}, delayMs: 20 }]);
+      const warmer = new CacheWarmer({ cache: { enabled: true, namespace: 'warming' }, concurrency: 2, checkIntervalMs: 5 });
+      (['/a', '/b', '/c'] as const).forEach((path) => warmer.register({ ...hot(path), transport }));
+
+      warmer.start();
+      expect(warmer.getState().running).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      warmer.stop();
+
+      expect(warmer.getState().running).toBe(false);
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(peak()).toBe(2);
+    });
+  });
+
+  describe('Persistence', () => {
+    const item = (id: number) => ({ ...reqConfig, url: `/items/${id}` });
+
+    const memoryPersistence = () => {
+      let snapshot: CacheManagerPersistedState | null = null;
+      let log: CachePersistenceOperation[] = [];
+      return {
+        load: jest.fn(() => snapshot),
+        store: jest.fn((state: CacheManagerPersistedState) => {
+          snapshot = JSON.parse(JSON.stringify(state));
+          log = [];
+        }),
+        append: jest.fn((operations: CachePersistenceOperation[]) => {
+          log.push(...JSON.parse(JSON.stringify(operations)));
+        }),
+        loadOperations: jest.fn(() => log)
+      };
+    };
+
+    it('should batch writes and append compacted deltas instead of full snapshots', async () => {
+      const persistence = memoryPersistence();
+      const cache = new CacheManager({ enabled: true, persistence, persistenceDebounceMs: 1000 });
+
+      [1, 2, 3].forEach((id) => cache.set(item(id), { id }, 200, 'OK', {}));
+      cache.set(item(2), { id: 2, updated: true }, 200, 'OK', {});
+      cache.delete(item(1));
+      expect(persistence.append).not.toHaveBeenCalled();
+
+      await cache.flush();
+
+      expect(persistence.store).not.toHaveBeenCalled();
+      expect(persistence.append).toHaveBeenCalledTimes(1);
+      const operations = persistence.append.mock.calls[0][0] as CachePersistenceOperation[];
+      expect(operations.map((operation) => [operation.type, operation.value?.data])).toEqual([
+        ['set', { id: 3 }],
+        ['set', { id: 2, updated: true }],
+        ['delete', undefined]
+      ]);
+    });
+
+    it('should compact the operation log into a snapshot past the threshold', async () => {
+      const persistence = memoryPersistence();
+      const cache = new CacheManager({ enabled: true, persistence, compactionThreshold: 2 });
+
+      for (const id of [1, 2, 3]) {
+        cache.set(item(id), { id }, 200, 'OK', {});
+        await cache.flush();
+      }
+
+      expect(persistence.append).toHaveBeenCalledTimes(2);
+      expect(persistence.store).toHaveBeenCalledTimes(1);
+      expect(persistence.loadOperations()).toHaveLength(0);
+
+      cache.set(item(4), { id: 4 }, 200, 'OK', {});
+      await cache.compact();
+      expect(persistence.store).toHaveBeenCalledTimes(2);
+    });
+
+    it('should restore entries from the snapshot and replay the operation log', async () => {
+      const persistence = memoryPersistence();
+      const cache = new CacheManager({ enabled: true, persistence, compactionThreshold: 2 });
+      [1, 2, 3].forEach((id) => cache.set(item(id), { id }, 200, 'OK', {}));
+      cache.delete(item(2));
+      cache.set(item(4), { id: 4 }, 200, 'OK', { vary: 'X-Locale' });
+      await cache.flush();
+
+      const restored = new CacheManager({ enabled: true, persistence });
+      await restored.initialize();
+
+      expect(restored.getStats().size).toBe(3);
+      expect(restored.get(item(1))?.data).toEqual({ id: 1 });
+      expect(restored.get(item(2))).toBeNull();
+      expect(restored.get(item(4))?.data).toEqual({ id: 4 });
+    });
+  });
+
+  describe('Conditional Revalidation', () => {
+    it('should build conditional headers for expired entries with validators', () => {
+      jest.useFakeTimers({ now: 0 });
+      const cache = new CacheManager({ enabled: true, ttl: 1000 });
+      cache.set(reqConfig, { id: 1 }, 200, 'OK', {
+        etag: '"v1"',
+        'last-modified': 'Wed, 01 Jan 2025 00:00:00 GMT'
+      });
+
+      expect(cache.getRevalidationHeaders(reqConfig)).toBeNull();
+
+      jest.setSystemTime(2000);
+      expect(cache.get(reqConfig)).toBeNull();
+      expect(cache.prune()).toBe(0);
+      expect(cache.getRevalidationHeaders(reqConfig)).toEqual({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT'
+      });
+
+      const refreshed = cache.revalidate(reqConfig, { 'cache-control': 'max-age=5' });
+      expect(refreshed?.data).toEqual({ id: 1 });
+      expect(refreshed?.expiresAt).toBe(7000);
+      expect(cache.get(reqConfig)?.data).toEqual({ id: 1 });
+      expect(cache.getStats().revalidations).toBe(1);
+    });
+
+    it('should treat a 304 response as a cache refresh', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 200, data: { catalogue: ['a', 'b'] }, headers: { etag: '"abc"' } },
+        { status: 304 }
+      ]);
+      const options = {
+        reqData: { hostname: 'api.example.com', path: '/catalogue' as const, method: REQUEST_METHODS.GET },
+        resReq: true,
+        transport,
+        cache: { enabled: true, ttl: 20 }
+      };
+
+      await stableRequest(options);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      const revalidated = await stableRequest(options);
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect((request.mock.calls[1] as any[])[0].headers['If-None-Match']).toBe('"abc"');
+      expect(revalidated.success).toBe(true);
+      expect(revalidated.data).toEqual({ catalogue: ['a', 'b'] });
+      expect(revalidated.fromCache).toBe(true);
+      expect(revalidated.metrics?.infrastructureMetrics?.cache?.revalidations).toBe(1);
+
+      const cached = await stableRequest(options);
+      expect(cached.data).toEqual({ catalogue: ['a', 'b'] });
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+  });
+});
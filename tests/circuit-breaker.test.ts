@@ -0,0 +1,533 @@
+/**
+ * Test Suite: Circuit Breaker
+ * Tests sliding-window failure accounting, slow-call thresholds, events, keyed registries and shared state
+ */
+
+import {
+  stableRequest,
+  stableRequestBatch,
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  CircuitBreakerKeyStrategy,
+  CircuitBreakerState,
+  CircuitBreakerWindowType,
+  InMemoryInfrastructurePersistence,
+  InfrastructurePersistenceOperationTypes,
+  REQUEST_METHODS
+} from '../src';
+import type { CircuitBreakerPersistedState } from '../src';
+import { createFakeTransport } from './helpers/fake-transport';
+import type { FakeReply } from './helpers/fake-transport';
+
+const failingHost = (host: string) => (reqData: any): FakeReply =>
+  reqData.baseURL.includes(host) ? { status: 503 } : { status: 200, data: 'ok' };
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Count-based sliding window', () => {
+    it('should open on recent failures regardless of earlier successes', () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 10,
+        recoveryTimeoutMs: 10000,
+        slidingWindowSize: 10
+      });
+
+      for (let i = 0; i < 1000; i++) {
+        breaker.recordSuccess();
+      }
+      for (let i = 0; i < 5; i++) {
+        breaker.recordFailure();
+      }
+
+      const state = breaker.getState();
+      expect(state.state).toBe(CircuitBreakerState.OPEN);
+      expect(state.slidingWindow).toEqual(expect.objectContaining({ calls: 10, failedCalls: 5, failurePercentage: 50 }));
+    });
+
+    it('should evict the oldest outcomes once the window is full', () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 75,
+        minimumRequests: 4,
+        recoveryTimeoutMs: 10000,
+        slidingWindowSize: 4
+      });
+
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      breaker.recordSuccess();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+
+      expect(breaker.getState().state).toBe(CircuitBreakerState.CLOSED);
+      expect(breaker.getState().slidingWindow.failedCalls).toBe(1);
+
+      breaker.recordFailure();
+      breaker.recordFailure();
+
+      expect(breaker.getState().state).toBe(CircuitBreakerState.OPEN);
+    });
+  });
+
+  describe('Time-based sliding window', () => {
+    it('should forget failures that fall outside the window', () => {
+      jest.useFakeTimers();
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 3,
+        recoveryTimeoutMs: 10000,
+        slidingWindowType: CircuitBreakerWindowType.TIME_BASED,
+        slidingWindowMs: 1000,
+        slidingWindowBuckets: 10
+      });
+
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      jest.advanceTimersByTime(2000);
+      breaker.recordSuccess();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+
+      expect(breaker.getState().state).toBe(CircuitBreakerState.CLOSED);
+      expect(breaker.getState().slidingWindow.calls).toBe(3);
+
+      breaker.recordFailure();
+
+      expect(breaker.getState().state).toBe(CircuitBreakerState.OPEN);
+    });
+  });
+
+  describe('Slow calls', () => {
+    it('should open when the slow-call rate reaches its threshold', () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 4,
+        recoveryTimeoutMs: 10000,
+        slowCallDurationMs: 100,
+        slowCallRateThresholdPercentage: 75
+      });
+
+      breaker.recordSuccess(20);
+      breaker.recordSuccess(150);
+      breaker.recordSuccess(300);
+      expect(breaker.getState().state).toBe(CircuitBreakerState.CLOSED);
+
+      breaker.recordSuccess(120);
+
+      const state = breaker.getState();
+      expect(state.state).toBe(CircuitBreakerState.OPEN);
+      expect(state.slidingWindow.slowCallPercentage).toBe(75);
+    });
+
+    it('should count slow attempts when tracking individual attempts', () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 2,
+        recoveryTimeoutMs: 10000,
+        trackIndividualAttempts: true,
+        slowCallDurationMs: 100
+      });
+
+      breaker.recordAttemptSuccess(200);
+      breaker.recordAttemptSuccess(250);
+
+      expect(breaker.getState().state).toBe(CircuitBreakerState.OPEN);
+    });
+  });
+
+  describe('Events', () => {
+    const config = { failureThresholdPercentage: 50, minimumRequests: 2, recoveryTimeoutMs: 1000, halfOpenMaxRequests: 1 };
+
+    it('should report state changes through onStateChange', async () => {
+      jest.useFakeTimers();
+      const onStateChange = jest.fn();
+      const breaker = new CircuitBreaker({ ...config, onStateChange });
+
+      breaker.recordSuccess();
+      breaker.recordFailure();
+      jest.advanceTimersByTime(1000);
+      await breaker.canExecute();
+      breaker.recordSuccess();
+
+      expect(onStateChange.mock.calls.map(([event]) => [event.previousState, event.nextState])).toEqual([
+        [CircuitBreakerState.CLOSED, CircuitBreakerState.OPEN],
+        [CircuitBreakerState.OPEN, CircuitBreakerState.HALF_OPEN],
+        [CircuitBreakerState.HALF_OPEN, CircuitBreakerState.CLOSED]
+      ]);
+      expect(onStateChange.mock.calls[0][0]).toEqual(
+        expect.objectContaining({ state: CircuitBreakerState.OPEN, failurePercentage: 50, timestamp: Date.now() - 1000 })
+      );
+    });
+
+    it('should emit rejected, success and failure events until unsubscribed', async () => {
+      const breaker = new CircuitBreaker(config);
+      const rejected = jest.fn();
+      const outcomes: string[] = [];
+      const onSuccess = jest.fn((event) => outcomes.push(`success:${event.scope}:${event.durationMs}`));
+      breaker.on('rejected', rejected);
+      breaker.on('success', onSuccess);
+      const unsubscribe = breaker.on('failure', (event) => outcomes.push(`failure:${event.scope}:${event.durationMs}`));
+
+      breaker.recordAttemptSuccess(15);
+      breaker.recordSuccess(30);
+      breaker.recordFailure();
+      breaker.off('success', onSuccess);
+      unsubscribe();
+      breaker.recordFailure();
+
+      await expect(breaker.execute(async () => 'blocked')).rejects.toThrow('Circuit breaker is OPEN');
+      expect(outcomes).toEqual(['success:attempt:15', 'success:request:30', 'failure:request:undefined']);
+      expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ state: CircuitBreakerState.OPEN }));
+    });
+
+    it('should keep working when a listener throws', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const breaker = new CircuitBreaker({
+        ...config,
+        onStateChange: () => {
+          throw new Error('pager unavailable');
+        }
+      });
+
+      breaker.recordFailure();
+      breaker.recordFailure();
+
+      expect(breaker.getState().state).toBe(CircuitBreakerState.OPEN);
+      expect(warn).toHaveBeenCalledWith('stable-request: Circuit breaker "stateChange" listener failed.', expect.any(Error));
+      warn.mockRestore();
+    });
+  });
+
+  describe('stableRequest integration', () => {
+    it('should record request outcomes and block once the breaker opens', async () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 2,
+        recoveryTimeoutMs: 10000
+      });
+      const { transport, request } = createFakeTransport([{ status: 503 }]);
+
+      for (let i = 0; i < 2; i++) {
+        await stableRequest({
+          reqData: { hostname: 'api.example.com', path: '/items' },
+          circuitBreaker: breaker,
+          transport
+        });
+      }
+      const blocked = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        circuitBreaker: breaker,
+        transport
+      });
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(blocked.success).toBe(false);
+      expect(blocked.error).toContain('Circuit breaker is OPEN');
+      expect(blocked.metrics?.infrastructureMetrics?.circuitBreaker).toEqual(
+        expect.objectContaining({ windowCalls: 2, windowFailurePercentage: 100 })
+      );
+    });
+
+    it('should record one outcome per request when trackIndividualAttempts is off', async () => {
+      const breaker = new CircuitBreaker({ failureThresholdPercentage: 50, minimumRequests: 10, recoveryTimeoutMs: 10000 });
+      const { transport, request } = createFakeTransport([{ status: 503 }]);
+
+      await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        attempts: 3,
+        wait: 1,
+        circuitBreaker: breaker,
+        transport
+      });
+
+      const state = breaker.getState();
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(state.slidingWindow).toEqual(expect.objectContaining({ calls: 1, failedCalls: 1 }));
+      expect(state.totalAttempts).toBe(0);
+    });
+
+    it('should time slow calls by the final attempt, not retry delays', async () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 10,
+        recoveryTimeoutMs: 10000,
+        slowCallDurationMs: 100
+      });
+      const request = jest.fn()
+        .mockResolvedValueOnce({ status: 503, statusText: 'Error', headers: {}, error: { message: 'Request failed with status code 503' } })
+        .mockResolvedValueOnce({ status: 200, statusText: 'OK', headers: {}, data: 'ok' });
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        attempts: 2,
+        wait: 150,
+        circuitBreaker: breaker,
+        transport: { request }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.metrics?.totalExecutionTime).toBeGreaterThanOrEqual(150);
+      expect(breaker.getState().slidingWindow).toEqual(expect.objectContaining({ calls: 1, slowCalls: 0 }));
+    });
+  });
+
+  describe('CircuitBreakerRegistry', () => {
+    const defaults = { failureThresholdPercentage: 50, minimumRequests: 2, recoveryTimeoutMs: 10000 };
+
+    it('should keep a failing host from tripping the breaker of a healthy one', async () => {
+      const registry = new CircuitBreakerRegistry({ defaults });
+      const { transport, request } = createFakeTransport(failingHost('down.example.com'));
+
+      for (let i = 0; i < 3; i++) {
+        await stableRequest({ reqData: { hostname: 'down.example.com', path: '/items' }, circuitBreaker: registry, transport });
+      }
+      const healthy = await stableRequest({
+        reqData: { hostname: 'up.example.com', path: '/items' },
+        resReq: true,
+        circuitBreaker: registry,
+        transport
+      });
+
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(healthy.data).toBe('ok');
+      expect(registry.keys()).toEqual(['https://down.example.com:443', 'https://up.example.com:443']);
+      expect(registry.get('https://down.example.com:443').getState().state).toBe(CircuitBreakerState.OPEN);
+      expect(healthy.metrics?.infrastructureMetrics?.circuitBreakerRegistry).toEqual(
+        expect.objectContaining({ totalBreakers: 2, openBreakers: 1, closedBreakers: 1, isHealthy: false })
+      );
+    });
+
+    it('should key breakers by route template and apply per-key overrides', () => {
+      const registry = new CircuitBreakerRegistry({
+        defaults,
+        keyBy: CircuitBreakerKeyStrategy.ROUTE,
+        overrides: { 'POST https://api.example.com/orders': { minimumRequests: 50 } }
+      });
+
+      const first = registry.getForRequest({ baseURL: 'https://api.example.com', url: '/users/42?expand=true' });
+      const second = registry.getForRequest({
+        baseURL: 'https://api.example.com',
+        url: '/users/3f2c9a1e-8b7d-4c6a-9e5f-1a2b3c4d5e6f'
+      });
+      const orders = registry.getForRequest({ baseURL: 'https://api.example.com', url: '/orders', method: REQUEST_METHODS.POST });
+
+      expect(first).toBe(second);
+      expect(registry.keys()).toEqual(['GET https://api.example.com/users/:id', 'POST https://api.example.com/orders']);
+      expect(orders.getState().config.minimumRequests).toBe(50);
+      expect(first.getState().config.minimumRequests).toBe(2);
+    });
+
+    it('should match route templates on the decoded path', () => {
+      const registry = new CircuitBreakerRegistry({ defaults, keyBy: CircuitBreakerKeyStrategy.ROUTE });
+
+      const encoded = registry.resolveKey({ baseURL: 'https://api.example.com', url: '/orgs/%7Borg%7D/users' });
+      const braces = registry.resolveKey({ baseURL: 'https://api.example.com', url: '/orgs/{org}/users' });
+
+      expect(encoded).toBe('GET https://api.example.com/orgs/:org/users');
+      expect(braces).toBe(encoded);
+    });
+
+    it('should reset and remove individual breakers', () => {
+      const registry = new CircuitBreakerRegistry({ defaults, keyBy: (reqConfig) => reqConfig.url ?? '' });
+      const breaker = registry.get('/a');
+      breaker.recordFailure();
+      breaker.recordFailure();
+      registry.get('/b');
+
+      expect(registry.getState().openBreakers).toBe(1);
+      registry.reset('/a');
+      expect(breaker.getState().state).toBe(CircuitBreakerState.CLOSED);
+
+      expect(registry.remove('/b')).toBe(true);
+      expect(registry.has('/b')).toBe(false);
+      registry.clear();
+      expect(registry.getState().totalBreakers).toBe(0);
+    });
+
+    it('should aggregate registry metrics across a batch', async () => {
+      const registry = new CircuitBreakerRegistry({ defaults });
+      const { transport } = createFakeTransport(failingHost('down.example.com'));
+
+      const batch = await stableRequestBatch(
+        ['down.example.com', 'up.example.com', 'up.example.com'].map((hostname) => ({
+          reqData: { hostname, path: '/items' }
+        })),
+        { circuitBreaker: registry, sharedOptions: { transport } }
+      );
+
+      expect(batch.metrics.infrastructureMetrics?.circuitBreaker).toBeUndefined();
+      expect(batch.metrics.infrastructureMetrics?.circuitBreakerRegistry).toEqual(
+        expect.objectContaining({ totalBreakers: 2, totalRequests: 3, failedRequests: 1 })
+      );
+    });
+  });
+
+  describe('Shared state', () => {
+    const sharedConfig = (persistence: InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>) => ({
+      failureThresholdPercentage: 100,
+      minimumRequests: 2,
+      recoveryTimeoutMs: 10000,
+      sharedState: true,
+      sharedRefreshIntervalMs: 0,
+      persistence
+    });
+
+    it('should open every process once the shared window trips', async () => {
+      const persistence = new InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>();
+      const podA = new CircuitBreaker(sharedConfig(persistence));
+      const podB = new CircuitBreaker(sharedConfig(persistence));
+      const onStateChange = jest.fn();
+      podB.on('stateChange', onStateChange);
+
+      podA.recordFailure();
+      podB.recordFailure();
+      await Promise.all([podA.sync(), podB.sync()]);
+      await podA.sync();
+
+      expect(podA.getState().state).toBe(CircuitBreakerState.OPEN);
+      expect(podB.getState().state).toBe(CircuitBreakerState.OPEN);
+      expect(podA.getState().failedRequests).toBe(2);
+      expect(persistence.getVersion()).toBe(2);
+      expect(onStateChange).toHaveBeenCalledWith(
+        expect.objectContaining({ previousState: CircuitBreakerState.CLOSED, nextState: CircuitBreakerState.OPEN })
+      );
+      expect(await podB.canExecute()).toBe(false);
+    });
+
+    it('should pick up remote transitions on the refresh interval', async () => {
+      const persistence = new InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>();
+      const podA = new CircuitBreaker(sharedConfig(persistence));
+      const podB = new CircuitBreaker({ ...sharedConfig(persistence), sharedRefreshIntervalMs: 10 });
+      await podB.initialize();
+
+      podA.recordFailure();
+      podA.recordFailure();
+      await podA.sync();
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      podB.dispose();
+
+      expect(podB.getState().state).toBe(CircuitBreakerState.OPEN);
+    });
+
+    it('should initialize the breakers a registry creates', async () => {
+      const persistence = new InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>();
+      const registryConfig = {
+        defaults: { ...sharedConfig(persistence), minimumRequests: 4, sharedRefreshIntervalMs: 10 },
+        persistence: () => persistence
+      };
+      const podA = new CircuitBreakerRegistry(registryConfig);
+      const podB = new CircuitBreakerRegistry(registryConfig);
+      const reqConfig = { baseURL: 'https://api.example.com' };
+
+      [1, 2].forEach(() => podA.getForRequest(reqConfig).recordFailure());
+      [1, 2].forEach(() => podB.getForRequest(reqConfig).recordFailure());
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      const states = [podA.getState(), podB.getState()];
+      podA.clear();
+      podB.clear();
+
+      expect(persistence.getVersion()).toBeGreaterThan(0);
+      expect(states).toEqual([
+        expect.objectContaining({ totalBreakers: 1, openBreakers: 1 }),
+        expect.objectContaining({ totalBreakers: 1, openBreakers: 1 })
+      ]);
+    });
+
+    it('should share resets across processes', async () => {
+      const persistence = new InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>();
+      const podA = new CircuitBreaker(sharedConfig(persistence));
+      const podB = new CircuitBreaker(sharedConfig(persistence));
+
+      podA.recordFailure();
+      podA.recordFailure();
+      await podA.sync();
+      podB.reset();
+      await podB.sync();
+      await podA.sync();
+
+      expect(podA.getState()).toEqual(expect.objectContaining({ state: CircuitBreakerState.CLOSED, failedRequests: 0 }));
+    });
+
+    it('should require a transaction handler', () => {
+      expect(() => new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 2,
+        recoveryTimeoutMs: 1000,
+        sharedState: true,
+        persistence: { load: () => null, store: () => {} }
+      })).toThrow('transaction handler');
+    });
+
+    it('should reject adapters that do not return versions', async () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 2,
+        recoveryTimeoutMs: 1000,
+        sharedState: true,
+        persistence: { transaction: () => null }
+      });
+
+      await expect(breaker.initialize()).rejects.toThrow('did not return a version');
+    });
+
+    it('should batch outcomes until the next sync but push transitions right away', async () => {
+      const persistence = new InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>();
+      const transaction = jest.spyOn(persistence, 'transaction');
+      const breaker = new CircuitBreaker({ ...sharedConfig(persistence), failureThresholdPercentage: 50, minimumRequests: 5 });
+
+      breaker.recordSuccess();
+      breaker.recordSuccess();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(transaction).not.toHaveBeenCalled();
+
+      await breaker.sync();
+      expect(transaction).toHaveBeenCalledTimes(2);
+      expect(persistence.getVersion()).toBe(1);
+
+      transaction.mockClear();
+      [1, 2, 3, 4, 5].forEach(() => breaker.recordFailure());
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(breaker.getState().state).toBe(CircuitBreakerState.OPEN);
+      expect(transaction).toHaveBeenCalledTimes(2);
+      expect(persistence.transaction({ operationId: 'check', type: InfrastructurePersistenceOperationTypes.LOAD, timestamp: 0 }).state?.state)
+        .toBe(CircuitBreakerState.OPEN);
+    });
+
+    it('should cap operations queued while the store is unavailable', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const persistence = new InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>();
+      const breaker = new CircuitBreaker({ ...sharedConfig(persistence), minimumRequests: 5000 });
+      const transaction = jest.spyOn(persistence, 'transaction').mockImplementation(() => {
+        throw new Error('store unavailable');
+      });
+
+      for (let i = 0; i < 1500; i++) {
+        breaker.recordSuccess();
+      }
+      await breaker.sync();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unable to synchronize'), expect.any(Error));
+
+      transaction.mockRestore();
+      await breaker.sync();
+      warn.mockRestore();
+
+      expect(breaker.getState().totalRequests).toBe(1000);
+    });
+
+    it('should restore local state from the in-memory adapter', async () => {
+      const persistence = new InMemoryInfrastructurePersistence<CircuitBreakerPersistedState>();
+      const breaker = new CircuitBreaker({ failureThresholdPercentage: 50, minimumRequests: 1, recoveryTimeoutMs: 10000, persistence });
+      breaker.recordFailure();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const restarted = new CircuitBreaker({ failureThresholdPercentage: 50, minimumRequests: 1, recoveryTimeoutMs: 10000, persistence });
+      await restarted.initialize();
+
+      expect(restarted.getState().state).toBe(CircuitBreakerState.OPEN);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Test Helper: fake transport
+ * Scripted transport shared by the stableRequest test suites
+ */
+
+import type { Transport, TransportError, TransportResponse } from '../../src';
+
+export type FakeReply = {
+  status: number;
+  statusText?: string;
+  data?: any;
+  headers?: Record<string, any>;
+  error?: TransportError;
+  delayMs?: number;
+};
+
+type ReplyScript = FakeReply[] | ((reqData: any, call: number) => FakeReply);
+
+const toTransportResponse = (reply: FakeReply): TransportResponse =>
+  reply.status < 400 && !reply.error
+    ? { status: reply.status, statusText: reply.statusText ?? 'OK', headers: reply.headers ?? {}, data: reply.data }
+    : {
+        status: reply.status,
+        statusText: reply.statusText ?? 'Error',
+        headers: reply.headers ?? {},
+        data: reply.data,
+        error: reply.error ?? { message: `Request failed with status code ${reply.status}` }
+      };
+
+/**
+ * Replies are served in order and the last one repeats. A function script picks the reply per request.
+ * Replies with a `delayMs` settle on a timer and resolve as cancelled when the request signal aborts.
+ */
+export const createFakeTransport = (script: ReplyScript = [{ status: 200, data: 'ok' }]) => {
+  const aborted: number[] = [];
+  let call = 0;
+  let inFlight = 0;
+  let peak = 0;
+
+  const request = jest.fn((reqData: any): Promise<TransportResponse> => {
+    const index = call++;
+    const reply = typeof script === 'function' ? script(reqData, index) : script[Math.min(index, script.length - 1)];
+    if (reply.delayMs === undefined) {
+      return Promise.resolve(toTransportResponse(reply));
+    }
+
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    return new Promise<TransportResponse>((resolve) => {
+      const timer = setTimeout(() => resolve(toTransportResponse(reply)), reply.delayMs);
+      reqData.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        aborted.push(index);
+        resolve({
+          status: 0,
+          statusText: '',
+          headers: {},
+          error: { message: 'Request was cancelled.', isCancelled: true }
+        });
+      });
+    }).finally(() => inFlight--);
+  });
+  const transport: Transport = { request };
+  return { transport, request, aborted, peak: () => peak };
+};
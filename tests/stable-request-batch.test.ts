@@ -0,0 +1,146 @@
+/**
+ * Test Suite: StableRequest Batch
+ * Tests batch execution, shared infrastructure and aggregate batch metrics
+ */
+
+import {
+  stableRequestBatch,
+  StableBuffer,
+  CircuitBreaker,
+  resetGlobalCacheManager
+} from '../src';
+import type { STABLE_REQUEST } from '../src';
+import { createFakeTransport } from './helpers/fake-transport';
+
+const createTransport = (failingPaths: string[] = [], delayMs = 10) =>
+  createFakeTransport((reqData) =>
+    failingPaths.includes(reqData.url) ? { status: 500, delayMs } : { status: 200, data: { path: reqData.url }, delayMs }
+  );
+
+const buildRequests = (count: number): STABLE_REQUEST[] =>
+  Array.from({ length: count }, (_, index) => ({
+    reqData: { hostname: 'api.example.com', path: `/items/${index}` as const },
+    resReq: true
+  }));
+
+describe('StableRequest - Batch Execution', () => {
+  afterEach(() => {
+    resetGlobalCacheManager();
+  });
+
+  it('should run every request and return results in order', async () => {
+    const { transport } = createTransport();
+
+    const batch = await stableRequestBatch(buildRequests(4), { sharedOptions: { transport } });
+
+    expect(batch.success).toBe(true);
+    expect(batch.results.map((result) => result.data)).toEqual([
+      { path: '/items/0' },
+      { path: '/items/1' },
+      { path: '/items/2' },
+      { path: '/items/3' }
+    ]);
+  });
+
+  it('should respect the concurrency limit', async () => {
+    const { transport, peak } = createTransport([], 20);
+
+    await stableRequestBatch(buildRequests(6), { concurrency: 2, sharedOptions: { transport } });
+
+    expect(peak()).toBe(2);
+  });
+
+  it('should report aggregate metrics', async () => {
+    const { transport } = createTransport(['/items/1']);
+
+    const batch = await stableRequestBatch(buildRequests(4), {
+      sharedOptions: { transport },
+      metricsGuardrails: { common: { successRate: { min: 90 } } }
+    });
+
+    expect(batch.success).toBe(false);
+    expect(batch.results[1].success).toBe(false);
+    expect(batch.metrics).toEqual(expect.objectContaining({
+      totalRequests: 4,
+      successfulRequests: 3,
+      failedRequests: 1,
+      skippedRequests: 0,
+      successRate: 75,
+      failureRate: 25
+    }));
+    expect(batch.metrics.throughput).toBeGreaterThan(0);
+    expect(batch.metrics.p50Latency).toBeGreaterThanOrEqual(batch.metrics.minLatency);
+    expect(batch.metrics.p95Latency).toBeLessThanOrEqual(batch.metrics.maxLatency);
+    expect(batch.metrics.validation?.isValid).toBe(false);
+    expect(batch.metrics.validation?.anomalies[0].metricName).toBe('successRate');
+  });
+
+  it('should stop starting new requests after the first failure', async () => {
+    const { request, transport } = createTransport(['/items/1']);
+
+    const batch = await stableRequestBatch(buildRequests(5), {
+      concurrency: 1,
+      stopOnFirstFailure: true,
+      sharedOptions: { transport }
+    });
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(batch.metrics.skippedRequests).toBe(3);
+    expect(batch.results[4].success).toBe(false);
+    expect(batch.results[4].error).toContain('Skipped');
+  });
+
+  it('should share the buffer, circuit breaker and cache across requests', async () => {
+    const { request, transport } = createTransport();
+    const buffer = new StableBuffer({ initialState: { seen: 0 } });
+    const breaker = new CircuitBreaker({ failureThresholdPercentage: 50, minimumRequests: 10, recoveryTimeoutMs: 1000 });
+    const requests: STABLE_REQUEST[] = [0, 0, 1].map((index) => ({
+      reqData: { hostname: 'api.example.com', path: `/items/${index}` as const },
+      resReq: true,
+      responseAnalyzer: ({ commonBuffer }) => {
+        commonBuffer!.seen += 1;
+        return true;
+      }
+    }));
+
+    const batch = await stableRequestBatch(requests, {
+      concurrency: 1,
+      commonBuffer: buffer,
+      circuitBreaker: breaker,
+      cache: { enabled: true },
+      sharedOptions: { transport }
+    });
+
+    expect(batch.success).toBe(true);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(buffer.read().seen).toBe(2);
+    expect(batch.metrics.infrastructureMetrics?.circuitBreaker).toBeDefined();
+    expect(batch.metrics.infrastructureMetrics?.cache?.hits).toBe(1);
+  });
+
+  it('should count requests answered by a fallback', async () => {
+    const { transport } = createTransport(['/items/1']);
+
+    const batch = await stableRequestBatch(buildRequests(3), {
+      sharedOptions: { transport, fallback: { value: { path: 'fallback' } } }
+    });
+
+    expect(batch.success).toBe(true);
+    expect(batch.results[1]).toEqual(expect.objectContaining({ fallbackUsed: true, data: { path: 'fallback' } }));
+    expect(batch.metrics.fallbackRequests).toBe(1);
+  });
+
+  it('should let individual requests override shared options', async () => {
+    const shared = createTransport();
+    const own = createTransport();
+    const requests: STABLE_REQUEST[] = [
+      buildRequests(1)[0],
+      { ...buildRequests(2)[1], transport: own.transport }
+    ];
+
+    await stableRequestBatch(requests, { sharedOptions: { transport: shared.transport } });
+
+    expect(shared.request).toHaveBeenCalledTimes(1);
+    expect(own.request).toHaveBeenCalledTimes(1);
+  });
+});
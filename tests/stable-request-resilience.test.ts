@@ -0,0 +1,898 @@
+/**
+ * Test Suite: StableRequest Resilience
+ * Tests hedged requests and other tail-latency and overload protections
+ */
+
+import {
+  stableRequest,
+  StableBuffer,
+  CircuitBreaker,
+  RateLimiter,
+  RateLimitExceededError,
+  resetSharedRateLimiters,
+  Bulkhead,
+  BulkheadRejectedError,
+  BulkheadKeyStrategy,
+  resetSharedBulkheads,
+  RateLimiterMode,
+  RateLimitExceededBehavior,
+  RESPONSE_ERRORS,
+  IDEMPOTENCY_KEY_STRATEGIES,
+  REQUEST_METHODS,
+  replayIdempotencyKey,
+  replayStableBufferTransactions
+} from '../src';
+import { createHash } from 'crypto';
+import { executeHedgedRequest, generateUUID, sha256Hex } from '../src/utilities';
+import type { RateLimiterPersistedState, StableBufferTransactionLog } from '../src';
+import { createFakeTransport } from './helpers/fake-transport';
+
+describe('StableRequest - Resilience', () => {
+  describe('Hedged requests', () => {
+    it('should fire a hedge after the delay and take the first success', async () => {
+      const { transport, request, aborted } = createFakeTransport([
+        { delayMs: 500, status: 200, data: 'slow' },
+        { delayMs: 10, status: 200, data: 'fast' }
+      ]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        resReq: true,
+        hedging: { enabled: true, hedgeDelayMs: 30 },
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('fast');
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(aborted).toEqual([0]);
+      expect(result.metrics?.hedgedAttempts).toBe(1);
+      expect(result.metrics?.winningAttemptIndex).toBe(1);
+    });
+
+    it('should not hedge when the primary answers within the delay', async () => {
+      const { transport, request } = createFakeTransport([{ delayMs: 5, status: 200, data: 'primary' }]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        resReq: true,
+        hedging: { enabled: true, hedgeDelayMs: 100, maxHedgedRequests: 2 },
+        transport
+      });
+
+      expect(result.data).toBe('primary');
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(result.metrics?.hedgedAttempts).toBe(0);
+      expect(result.metrics?.winningAttemptIndex).toBe(0);
+    });
+
+    it('should launch up to maxHedgedRequests copies', async () => {
+      const { transport, request, aborted } = createFakeTransport([
+        { delayMs: 400, status: 200, data: 'first' },
+        { delayMs: 400, status: 200, data: 'second' },
+        { delayMs: 10, status: 200, data: 'third' }
+      ]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        resReq: true,
+        hedging: { enabled: true, hedgeDelayMs: 20, maxHedgedRequests: 2 },
+        transport
+      });
+
+      expect(result.data).toBe('third');
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(aborted.sort()).toEqual([0, 1]);
+      expect(result.metrics?.winningAttemptIndex).toBe(2);
+    });
+
+    it('should not hedge non-idempotent methods', async () => {
+      const { transport, request } = createFakeTransport([{ delayMs: 60, status: 200, data: 'created' }]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items', method: REQUEST_METHODS.POST, body: {} },
+        resReq: true,
+        hedging: { enabled: true, hedgeDelayMs: 10 },
+        transport
+      });
+
+      expect(result.data).toBe('created');
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(result.metrics?.hedgedAttempts).toBeUndefined();
+    });
+
+    it('should fall back to retries when every copy fails', async () => {
+      const { transport, request } = createFakeTransport([
+        { delayMs: 5, status: 503 },
+        { delayMs: 5, status: 200, data: 'recovered' }
+      ]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        resReq: true,
+        attempts: 2,
+        wait: 10,
+        hedging: { enabled: true, hedgeDelayMs: 50 },
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('recovered');
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(result.metrics?.totalAttempts).toBe(2);
+    });
+
+    it('should count failed hedges against the circuit breaker', async () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 90,
+        minimumRequests: 10,
+        recoveryTimeoutMs: 10000,
+        trackIndividualAttempts: true
+      });
+      const { transport } = createFakeTransport([
+        { delayMs: 40, status: 500 },
+        { delayMs: 100, status: 200, data: 'late' }
+      ]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        resReq: true,
+        hedging: { enabled: true, hedgeDelayMs: 10 },
+        circuitBreaker: breaker,
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.metrics?.winningAttemptIndex).toBe(1);
+      const state = breaker.getState();
+      expect(state.failedAttempts).toBe(1);
+      expect(state.successfulAttempts).toBe(1);
+    });
+
+    it('should not launch hedges while the circuit breaker is open', async () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 50,
+        minimumRequests: 1,
+        recoveryTimeoutMs: 10000
+      });
+      const { transport, request } = createFakeTransport([{ delayMs: 60, status: 200, data: 'primary' }]);
+      const rejected = jest.fn();
+      breaker.on('rejected', rejected);
+      jest.spyOn(breaker, 'isCallPermitted').mockReturnValue(false);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        resReq: true,
+        hedging: { enabled: true, hedgeDelayMs: 10 },
+        circuitBreaker: breaker,
+        transport
+      });
+
+      expect(result.data).toBe('primary');
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(result.metrics?.hedgedAttempts).toBe(0);
+      expect(rejected).not.toHaveBeenCalled();
+      expect(breaker.getState().totalRequests).toBe(1);
+    });
+
+    it('should treat a failing hedge check as a lost hedge', async () => {
+      const breaker = new CircuitBreaker({
+        failureThresholdPercentage: 90,
+        minimumRequests: 10,
+        recoveryTimeoutMs: 10000,
+        trackIndividualAttempts: true
+      });
+      const { transport, request } = createFakeTransport([{ delayMs: 60, status: 200, data: 'primary' }]);
+      jest.spyOn(breaker, 'isCallPermitted').mockImplementation(() => {
+        throw new Error('breaker store unavailable');
+      });
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/items' },
+        resReq: true,
+        hedging: { enabled: true, hedgeDelayMs: 10 },
+        circuitBreaker: breaker,
+        transport
+      });
+
+      expect(result.data).toBe('primary');
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(result.metrics?.hedgedAttempts).toBe(0);
+      expect(breaker.getState().failedAttempts).toBe(1);
+    });
+
+    it('should remove its abort listener from the parent signal once settled', async () => {
+      const parent = new AbortController();
+      const addListener = jest.spyOn(parent.signal, 'addEventListener');
+      const removeListener = jest.spyOn(parent.signal, 'removeEventListener');
+
+      for (let i = 0; i < 3; i++) {
+        await executeHedgedRequest(
+          async () => ({ ok: true, isRetryable: false, timestamp: new Date().toISOString(), executionTime: 1, statusCode: 200 }),
+          50,
+          1,
+          parent.signal
+        );
+      }
+
+      expect(addListener).toHaveBeenCalledTimes(3);
+      expect(removeListener).toHaveBeenCalledTimes(3);
+      expect(removeListener.mock.calls.map(([, listener]) => listener)).toEqual(
+        addListener.mock.calls.map(([, listener]) => listener)
+      );
+    });
+  });
+
+  describe('Idempotency keys', () => {
+    const sequence = (statuses: number[]) =>
+      createFakeTransport(statuses.map((status) => ({ status, data: status < 400 ? 'ok' : undefined })));
+    const sentKeys = (request: jest.Mock, header = 'Idempotency-Key') =>
+      request.mock.calls.map(([config]) => config.headers?.[header]);
+
+    it('should send the same generated key on every retry', async () => {
+      const { request, transport } = sequence([503, 503, 200]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/payments', method: REQUEST_METHODS.POST, body: { amount: 10 } },
+        attempts: 3,
+        wait: 5,
+        idempotency: { enabled: true },
+        transport
+      });
+
+      const keys = sentKeys(request);
+      expect(result.success).toBe(true);
+      expect(keys).toHaveLength(3);
+      expect(new Set(keys).size).toBe(1);
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(result.idempotencyKey).toBe(keys[0]);
+    });
+
+    it('should generate a new key for each logical call', async () => {
+      const { request, transport } = sequence([200, 200]);
+      const options = {
+        reqData: { hostname: 'api.example.com', path: '/payments' as const, method: REQUEST_METHODS.POST },
+        idempotency: { enabled: true },
+        transport
+      };
+
+      await stableRequest(options);
+      await stableRequest(options);
+
+      const [first, second] = sentKeys(request);
+      expect(first).not.toBe(second);
+    });
+
+    it('should derive the key from the body hash and use a custom header', async () => {
+      const { request, transport } = sequence([200, 200]);
+      const call = (body: Record<string, any>) => stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/payments', method: REQUEST_METHODS.POST, body },
+        idempotency: { enabled: true, headerName: 'X-Request-Key', keyStrategy: IDEMPOTENCY_KEY_STRATEGIES.BODY_HASH },
+        transport
+      });
+
+      await call({ amount: 10, currency: 'EUR' });
+      await call({ currency: 'EUR', amount: 10 });
+
+      const keys = sentKeys(request, 'X-Request-Key');
+      expect(keys[0]).toBeDefined();
+      expect(keys[0]).toBe(keys[1]);
+      expect(request.mock.calls[0][0].headers['Idempotency-Key']).toBeUndefined();
+    });
+
+    it('should derive body-hash keys from a full SHA-256 digest', async () => {
+      const { request, transport } = sequence([200, 200]);
+      const call = (amount: number) => stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/payments', method: REQUEST_METHODS.POST, body: { amount } },
+        idempotency: { enabled: true, keyStrategy: IDEMPOTENCY_KEY_STRATEGIES.BODY_HASH },
+        transport
+      });
+
+      const first = await call(10);
+      const second = await call(11);
+
+      expect(first.idempotencyKey).toMatch(/^[0-9a-f]{64}$/);
+      expect(second.idempotencyKey).toMatch(/^[0-9a-f]{64}$/);
+      expect(first.idempotencyKey).not.toBe(second.idempotencyKey);
+    });
+
+    it('should hash identically without node:crypto', () => {
+      ['', 'abc', 'x'.repeat(200), 'POST:/payments:{"amount":10}', 'caf\u00e9 \u{1f680} \ud800'].forEach((input) => {
+        expect(sha256Hex(input)).toBe(createHash('sha256').update(input).digest('hex'));
+      });
+    });
+
+    it('should build UUIDs from crypto.getRandomValues when randomUUID is unavailable', () => {
+      const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+      const getRandomValues = jest.fn((array: Uint8Array) => array.fill(0xab));
+      Object.defineProperty(globalThis, 'crypto', { value: { getRandomValues }, configurable: true });
+      try {
+        expect(generateUUID()).toBe('abababab-abab-4bab-abab-abababababab');
+        expect(getRandomValues).toHaveBeenCalledTimes(1);
+      } finally {
+        Object.defineProperty(globalThis, 'crypto', descriptor);
+      }
+    });
+
+    it('should leave methods outside the configured list untouched', async () => {
+      const { request, transport } = sequence([200]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/payments' },
+        idempotency: { enabled: true },
+        transport
+      });
+
+      expect(sentKeys(request)).toEqual([undefined]);
+      expect(result.idempotencyKey).toBeUndefined();
+    });
+
+    it('should make non-idempotent methods retryable under a retry policy', async () => {
+      const { request, transport } = sequence([503, 200]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/payments', method: REQUEST_METHODS.PATCH },
+        attempts: 2,
+        wait: 5,
+        retryPolicy: { retryableMethods: [REQUEST_METHODS.GET] },
+        idempotency: { enabled: true, headerName: 'X-Request-Key' },
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should store the key in the buffer and reuse it after a replay', async () => {
+      const logs: StableBufferTransactionLog[] = [];
+      const buffer = new StableBuffer({ logTransaction: (log) => { logs.push(log); } });
+      const { request, transport } = sequence([500, 200]);
+      const options = {
+        reqData: { hostname: 'api.example.com', path: '/payments' as const, method: REQUEST_METHODS.POST, body: { amount: 5 } },
+        idempotency: { enabled: true, bufferKey: 'paymentKey' },
+        transport
+      };
+
+      const first = await stableRequest({ ...options, commonBuffer: buffer });
+      expect(first.success).toBe(false);
+      expect(buffer.read().paymentKey).toBe(first.idempotencyKey);
+
+      const replay = await replayStableBufferTransactions({
+        logs,
+        handlers: { idempotencyKey: replayIdempotencyKey },
+        allowUnknownHooks: true
+      });
+      const second = await stableRequest({ ...options, commonBuffer: replay.buffer });
+
+      expect(second.success).toBe(true);
+      expect(second.idempotencyKey).toBe(first.idempotencyKey);
+      expect(new Set(sentKeys(request)).size).toBe(1);
+    });
+  });
+
+  describe('Rate limiting', () => {
+    beforeEach(() => {
+      resetSharedRateLimiters();
+    });
+
+    it('should allow bursts up to the token bucket capacity and then queue', async () => {
+      const limiter = new RateLimiter({ maxRequests: 2, windowMs: 200 });
+      const start = Date.now();
+
+      await limiter.acquire();
+      await limiter.acquire();
+      expect(Date.now() - start).toBeLessThan(50);
+
+      await limiter.acquire();
+      expect(Date.now() - start).toBeGreaterThanOrEqual(80);
+      expect(limiter.getState().queuedRequests).toBe(1);
+    });
+
+    it('should enforce a sliding window log', async () => {
+      const limiter = new RateLimiter({ mode: RateLimiterMode.SLIDING_WINDOW, maxRequests: 2, windowMs: 150 });
+
+      expect(limiter.tryAcquire()).toBe(true);
+      expect(limiter.tryAcquire()).toBe(true);
+      expect(limiter.tryAcquire()).toBe(false);
+      expect(limiter.getState().timeUntilNextPermit).toBeGreaterThan(0);
+
+      await new Promise((resolve) => setTimeout(resolve, 170));
+      expect(limiter.tryAcquire()).toBe(true);
+    });
+
+    it('should reject when configured to reject or when the queue is full', async () => {
+      const rejecting = new RateLimiter({
+        maxRequests: 1,
+        windowMs: 1000,
+        onLimitExceeded: RateLimitExceededBehavior.REJECT
+      });
+      await rejecting.acquire();
+      await expect(rejecting.acquire()).rejects.toBeInstanceOf(RateLimitExceededError);
+
+      const bounded = new RateLimiter({ maxRequests: 1, windowMs: 100, maxQueueSize: 1 });
+      await bounded.acquire();
+      const queued = bounded.acquire();
+      await expect(bounded.acquire()).rejects.toBeInstanceOf(RateLimitExceededError);
+      await queued;
+      expect(bounded.getState().rejectedRequests).toBe(1);
+    });
+
+    it('should throttle stableRequest calls that share a limiter', async () => {
+      const limiter = new RateLimiter({ maxRequests: 1, windowMs: 100 });
+      const { request, transport } = createFakeTransport();
+      const start = Date.now();
+
+      const results = await Promise.all(
+        [1, 2, 3].map(() => stableRequest({
+          reqData: { hostname: 'api.example.com', path: '/limited' },
+          rateLimiter: limiter,
+          transport
+        }))
+      );
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(180);
+      expect(results[2].metrics?.infrastructureMetrics?.rateLimiter).toEqual(
+        expect.objectContaining({ totalRequests: 3, queuedRequests: 2, rejectedRequests: 0 })
+      );
+    });
+
+    it('should share one limiter across calls that pass the same config', async () => {
+      const { request, transport } = createFakeTransport();
+      const call = () => stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/limited' },
+        rateLimiter: { maxRequests: 2, windowMs: 60000, onLimitExceeded: RateLimitExceededBehavior.REJECT },
+        transport
+      });
+
+      const results = [await call(), await call(), await call()];
+
+      expect(results.map((result) => result.success)).toEqual([true, true, false]);
+      expect(results[2].errorType).toBe(RESPONSE_ERRORS.RATE_LIMITED);
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(results[2].metrics?.infrastructureMetrics?.rateLimiter).toEqual(
+        expect.objectContaining({ totalRequests: 3, rejectedRequests: 1 })
+      );
+    });
+
+    it('should share one limiter when each call builds its persistence adapter inline', async () => {
+      const { request, transport } = createFakeTransport();
+      const call = () => stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/limited' },
+        rateLimiter: {
+          maxRequests: 2,
+          windowMs: 60000,
+          onLimitExceeded: RateLimitExceededBehavior.REJECT,
+          persistence: { load: () => null, store: () => {} }
+        },
+        transport
+      });
+
+      const results = [await call(), await call(), await call()];
+
+      expect(results.map((result) => result.success)).toEqual([true, true, false]);
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail the request with RATE_LIMITED when the limiter rejects', async () => {
+      const { request, transport } = createFakeTransport();
+      const limiter = new RateLimiter({
+        maxRequests: 1,
+        windowMs: 1000,
+        onLimitExceeded: RateLimitExceededBehavior.REJECT
+      });
+      limiter.tryAcquire();
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/limited' },
+        attempts: 3,
+        wait: 10,
+        rateLimiter: limiter,
+        transport
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe(RESPONSE_ERRORS.RATE_LIMITED);
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should persist and restore its state', async () => {
+      let stored: RateLimiterPersistedState | undefined;
+      const persistence = {
+        load: () => stored,
+        store: (state: RateLimiterPersistedState) => { stored = state; }
+      };
+
+      const limiter = new RateLimiter({ maxRequests: 2, windowMs: 60000, persistence });
+      await limiter.initialize();
+      await limiter.acquire();
+      await limiter.acquire();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(stored?.allowedRequests).toBe(2);
+
+      const restored = new RateLimiter({ maxRequests: 2, windowMs: 60000, persistence });
+      await restored.initialize();
+      expect(restored.getState().availablePermits).toBe(0);
+      expect(restored.tryAcquire()).toBe(false);
+    });
+  });
+
+  describe('Bulkhead', () => {
+    const slowTransport = (delayMs: number) =>
+      createFakeTransport((reqData) => ({ status: 200, data: reqData.url, delayMs }));
+
+    beforeEach(() => {
+      resetSharedBulkheads();
+    });
+
+    it('should cap in-flight requests per key and queue the rest', async () => {
+      const bulkhead = new Bulkhead({ maxConcurrent: 2, maxQueueSize: 10 });
+      const { transport, peak } = slowTransport(30);
+
+      const results = await Promise.all(
+        [1, 2, 3, 4, 5].map(() => stableRequest({
+          reqData: { hostname: 'api.example.com', path: '/slow' },
+          bulkhead,
+          transport
+        }))
+      );
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(peak()).toBe(2);
+      expect(bulkhead.getState()).toEqual(expect.objectContaining({
+        activeRequests: 0,
+        queuedRequests: 0,
+        acceptedRequests: 5,
+        peakQueuedRequests: 3
+      }));
+    });
+
+    it('should share one bulkhead across concurrent calls that pass the same config', async () => {
+      const { transport, peak } = slowTransport(30);
+
+      const results = await Promise.all(
+        [1, 2, 3, 4].map(() => stableRequest({
+          reqData: { hostname: 'api.example.com', path: '/slow' },
+          bulkhead: { maxConcurrent: 2, maxQueueSize: 10 },
+          transport
+        }))
+      );
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(peak()).toBe(2);
+      expect(results[3].metrics?.infrastructureMetrics?.bulkhead).toEqual(
+        expect.objectContaining({ acceptedRequests: 4, peakQueuedRequests: 2 })
+      );
+    });
+
+    it('should share one bulkhead when each call declares its keyBy function inline', async () => {
+      const { transport, peak } = slowTransport(30);
+
+      const results = await Promise.all(
+        [1, 2, 3, 4].map(() => stableRequest({
+          reqData: { hostname: 'api.example.com', path: '/slow' },
+          bulkhead: { maxConcurrent: 2, maxQueueSize: 10, keyBy: () => 'tenant-a' },
+          transport
+        }))
+      );
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(peak()).toBe(2);
+    });
+
+    it('should reject with BULKHEAD_REJECTED when the queue is full', async () => {
+      const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueueSize: 0 });
+      const { request, transport } = slowTransport(30);
+
+      const [first, second] = await Promise.all([
+        stableRequest({ reqData: { hostname: 'api.example.com', path: '/slow' }, bulkhead, transport }),
+        stableRequest({ reqData: { hostname: 'api.example.com', path: '/slow' }, bulkhead, transport, attempts: 3, wait: 5 })
+      ]);
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      expect(second.errorType).toBe(RESPONSE_ERRORS.BULKHEAD_REJECTED);
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(second.metrics?.infrastructureMetrics?.bulkhead).toEqual(
+        expect.objectContaining({ rejectedRequests: 1, rejectionRate: 50 })
+      );
+    });
+
+    it('should time out queued requests', async () => {
+      const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueueSize: 5, queueTimeoutMs: 20 });
+      const release = await bulkhead.acquire('host');
+
+      await expect(bulkhead.acquire('host')).rejects.toBeInstanceOf(BulkheadRejectedError);
+      expect(bulkhead.getState().queueTimeouts).toBe(1);
+      release();
+      expect(bulkhead.getState().activeRequests).toBe(0);
+    });
+
+    it('should keep separate partitions per host, route or custom key', async () => {
+      const byHost = new Bulkhead({ maxConcurrent: 1 });
+      const byRoute = new Bulkhead({ maxConcurrent: 1, keyBy: BulkheadKeyStrategy.ROUTE });
+      const byTenant = new Bulkhead({ maxConcurrent: 1, keyBy: (config) => config.headers?.['x-tenant'] });
+
+      const config = { baseURL: 'https://api.example.com:443', url: '/users?page=2', method: 'GET', headers: { 'x-tenant': 'acme' } };
+      expect(byHost.resolveKey(config)).toBe('https://api.example.com:443');
+      expect(byRoute.resolveKey(config)).toBe('GET https://api.example.com:443/users');
+      expect(byRoute.resolveKey({ ...config, url: '/users/1' })).toBe(byRoute.resolveKey({ ...config, url: '/users/2' }));
+      expect(byRoute.resolveKey({ ...config, url: '/users/2' })).toBe('GET https://api.example.com:443/users/:id');
+      expect(byTenant.resolveKey(config)).toBe('acme');
+
+      await byHost.acquire('a');
+      await expect(byHost.acquire('b')).resolves.toEqual(expect.any(Function));
+      await expect(byHost.acquire('a')).rejects.toBeInstanceOf(BulkheadRejectedError);
+      expect(byHost.getState().partitions).toEqual({ a: { active: 1, queued: 0 }, b: { active: 1, queued: 0 } });
+    });
+
+    it('should validate bulkhead metrics against guardrails', async () => {
+      const bulkhead = new Bulkhead({ maxConcurrent: 1 });
+      const { transport } = slowTransport(20);
+      await bulkhead.acquire('https://api.example.com:443');
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/slow' },
+        bulkhead,
+        transport,
+        metricsGuardrails: { infrastructure: { bulkhead: { rejectionRate: { max: 10 } } } }
+      });
+
+      const validation = result.metrics?.infrastructureMetrics?.bulkhead?.validation;
+      expect(result.errorType).toBe(RESPONSE_ERRORS.BULKHEAD_REJECTED);
+      expect(validation?.isValid).toBe(false);
+      expect(validation?.anomalies[0].metricName).toBe('rejectionRate');
+    });
+  });
+
+  describe('Single-flight requests', () => {
+    it('should coalesce concurrent identical requests into one retry loop', async () => {
+      const { transport, request } = createFakeTransport([
+        { delayMs: 30, status: 503 },
+        { delayMs: 30, status: 200, data: { items: [1, 2, 3] } }
+      ]);
+      const options = {
+        reqData: { hostname: 'api.example.com', path: '/catalogue' as const },
+        resReq: true,
+        attempts: 2,
+        wait: 1,
+        singleFlight: true,
+        transport
+      };
+
+      const results = await Promise.all(Array.from({ length: 5 }, () => stableRequest(options)));
+
+      expect(request).toHaveBeenCalledTimes(2);
+      results.forEach((result) => {
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ items: [1, 2, 3] });
+        expect(result.metrics?.totalAttempts).toBe(2);
+      });
+      expect(results.filter((result) => result.metrics?.coalesced)).toHaveLength(4);
+      expect(results.filter((result) => result.metrics?.coalesced === false)).toHaveLength(1);
+
+      await stableRequest(options);
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not coalesce different or non-cacheable requests', async () => {
+      const { transport, request } = createFakeTransport([{ delayMs: 20, status: 200, data: { ok: true } }]);
+
+      await Promise.all([
+        stableRequest({ reqData: { hostname: 'api.example.com', path: '/a' as const }, singleFlight: true, transport }),
+        stableRequest({ reqData: { hostname: 'api.example.com', path: '/b' as const }, singleFlight: true, transport }),
+        stableRequest({
+          reqData: { hostname: 'api.example.com', path: '/a' as const, method: REQUEST_METHODS.POST, body: { id: 1 } },
+          singleFlight: true,
+          transport
+        }),
+        stableRequest({
+          reqData: { hostname: 'api.example.com', path: '/a' as const, method: REQUEST_METHODS.POST, body: { id: 1 } },
+          singleFlight: true,
+          transport
+        })
+      ]);
+
+      expect(request).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not coalesce calls that differ in resReq', async () => {
+      const { transport, request } = createFakeTransport([{ delayMs: 20, status: 200, data: { items: [1] } }]);
+      const reqData = { hostname: 'api.example.com', path: '/catalogue' as const };
+
+      const [withoutBody, withBody] = await Promise.all([
+        stableRequest({ reqData, resReq: false, singleFlight: true, transport }),
+        stableRequest({ reqData, resReq: true, singleFlight: true, transport })
+      ]);
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(withoutBody.data).toBe(true);
+      expect(withBody.data).toEqual({ items: [1] });
+      expect(withBody.metrics?.coalesced).toBe(false);
+    });
+
+    it('should coalesce calls with inline hooks and run only the hooks of the first call', async () => {
+      const { transport, request } = createFakeTransport([{ delayMs: 20, status: 200, data: { items: [1] } }]);
+      const analyzers = Array.from({ length: 5 }, () => jest.fn(() => true));
+
+      const results = await Promise.all(analyzers.map((analyzer) => stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/catalogue' },
+        resReq: true,
+        singleFlight: true,
+        responseAnalyzer: analyzer,
+        transport: { request: transport.request }
+      })));
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(results.filter((result) => result.metrics?.coalesced)).toHaveLength(4);
+      expect(analyzers.filter((analyzer) => analyzer.mock.calls.length > 0)).toHaveLength(1);
+    });
+
+    it('should key coalescing on the request after pre-execution overrides', async () => {
+      const { transport, request } = createFakeTransport((reqData) => ({ status: 200, data: reqData.url, delayMs: 20 }));
+      const preExecutionHook = jest.fn(({ inputParams }) => ({
+        reqData: { hostname: 'api.example.com', path: `/tenants/${inputParams.tenant}` }
+      }));
+      const call = (tenant: string) => stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/tenants/default' },
+        resReq: true,
+        singleFlight: true,
+        preExecution: { preExecutionHook, preExecutionHookParams: { tenant }, applyPreExecutionConfigOverride: true },
+        transport
+      });
+
+      const results = await Promise.all([call('acme'), call('globex'), call('acme')]);
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(preExecutionHook).toHaveBeenCalledTimes(3);
+      expect(results.map((result) => result.data)).toEqual(['/tenants/acme', '/tenants/globex', '/tenants/acme']);
+      expect(results[2].metrics?.coalesced).toBe(true);
+    });
+  });
+
+  describe('Fallback responses', () => {
+    it('should return a static fallback after retries are exhausted', async () => {
+      const { transport, request } = createFakeTransport([{ delayMs: 1, status: 503 }]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/recommendations' },
+        resReq: true,
+        attempts: 2,
+        wait: 1,
+        fallback: { value: { items: [] } },
+        transport
+      });
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(true);
+      expect(result.fallbackUsed).toBe(true);
+      expect(result.data).toEqual({ items: [] });
+      expect(result.error).toContain('503');
+      expect(result.metrics?.fallbackUsed).toBe(true);
+    });
+
+    it('should pass the final error and error logs to a fallback handler', async () => {
+      const { transport } = createFakeTransport([{ delayMs: 1, status: 500 }]);
+      const handler = jest.fn(({ errorLogs }) => ({ degraded: true, failures: errorLogs.length }));
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/profile' },
+        resReq: true,
+        attempts: 2,
+        wait: 1,
+        logAllErrors: true,
+        handleErrors: () => {},
+        fallback: { handler },
+        hookParams: { fallbackParams: { source: 'profile' } },
+        transport
+      });
+
+      expect(result.data).toEqual({ degraded: true, failures: 2 });
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.any(Error), params: { source: 'profile' } })
+      );
+    });
+
+    it('should pass the error logs to a fallback handler when logAllErrors is unset', async () => {
+      const { transport } = createFakeTransport([{ delayMs: 1, status: 500 }]);
+      const handler = jest.fn(({ errorLogs }) => ({ degraded: true, failures: errorLogs.length }));
+      const handleErrors = jest.fn();
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/profile' },
+        resReq: true,
+        attempts: 2,
+        wait: 1,
+        handleErrors,
+        fallback: { handler },
+        transport
+      });
+
+      expect(result.data).toEqual({ degraded: true, failures: 2 });
+      expect(handleErrors).not.toHaveBeenCalled();
+      expect(result.errorLogs).toBeUndefined();
+    });
+
+    it('should fall back when the circuit breaker is open', async () => {
+      const breaker = new CircuitBreaker({ failureThresholdPercentage: 50, minimumRequests: 1, recoveryTimeoutMs: 10000 });
+      breaker.recordFailure();
+      const { transport, request } = createFakeTransport([{ delayMs: 1, status: 200, data: 'live' }]);
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/feed' },
+        resReq: true,
+        circuitBreaker: breaker,
+        fallback: {
+          handler: () => {
+            throw new Error('no fallback source');
+          },
+          value: 'placeholder'
+        },
+        transport
+      });
+
+      expect(request).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ success: true, fallbackUsed: true, data: 'placeholder' }));
+      expect(result.error).toContain('Circuit breaker is OPEN');
+      expect(error).not.toHaveBeenCalled();
+      error.mockRestore();
+    });
+
+    it('should treat a handler that returns nothing as a failed handler', async () => {
+      const { transport } = createFakeTransport([{ delayMs: 1, status: 503 }]);
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const options = {
+        reqData: { hostname: 'api.example.com', path: '/feed' as const },
+        resReq: true,
+        transport
+      };
+
+      const withValue = await stableRequest({ ...options, fallback: { handler: () => undefined, value: 'placeholder' } });
+      const withoutValue = await stableRequest({
+        ...options,
+        logAllErrors: true,
+        handleErrors: () => {},
+        fallback: { handler: async () => undefined }
+      });
+
+      expect(withValue).toEqual(expect.objectContaining({ success: true, fallbackUsed: true, data: 'placeholder' }));
+      expect(withoutValue.success).toBe(false);
+      expect(withoutValue.fallbackUsed).toBeUndefined();
+      expect(withoutValue.data).toBeUndefined();
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('returned no value'));
+      error.mockRestore();
+    });
+
+    it('should serve the last cached response as a fallback', async () => {
+      const now = jest.spyOn(Date, 'now');
+      const { transport, request } = createFakeTransport([
+        { status: 200, headers: { etag: '"v1"' }, data: { version: 1 } },
+        { status: 503 }
+      ]);
+      const options = {
+        reqData: { hostname: 'fallback.example.com', path: '/catalog' as const },
+        resReq: true,
+        cache: { enabled: true, ttl: 1000 },
+        fallback: { useCachedResponse: true },
+        transport
+      };
+
+      now.mockReturnValue(1_000_000);
+      await stableRequest(options);
+      now.mockReturnValue(1_005_000);
+      const result = await stableRequest(options);
+      now.mockRestore();
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(expect.objectContaining({
+        success: true,
+        data: { version: 1 },
+        fromCache: true,
+        stale: true,
+        fallbackUsed: true
+      }));
+    });
+  });
+});
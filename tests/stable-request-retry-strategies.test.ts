@@ -0,0 +1,360 @@
+/**
+ * Test Suite: StableRequest Retry Scheduling
+ * Tests server-provided retry hints and delay calculation
+ */
+
+import {
+  stableRequest,
+  getRetryAfterDelay,
+  RETRY_DELAY_SOURCES,
+  RETRY_STRATEGIES,
+  REQUEST_METHODS,
+  RESPONSE_ERRORS
+} from '../src';
+import { getNewDelayTime } from '../src/utilities';
+import { createFakeTransport } from './helpers/fake-transport';
+import type { FakeReply } from './helpers/fake-transport';
+
+const throttled = (headers: Record<string, any>, status = 429): FakeReply => ({
+  status,
+  statusText: 'Too Many Requests',
+  headers
+});
+
+const ok = (data: any = 'ok'): FakeReply => ({ status: 200, data });
+
+describe('StableRequest - Retry Scheduling', () => {
+  describe('Retry-After and rate-limit headers', () => {
+    it('should parse Retry-After seconds and HTTP-dates', () => {
+      expect(getRetryAfterDelay(429, { 'Retry-After': '3' })).toEqual({
+        delay: 3000,
+        source: RETRY_DELAY_SOURCES.RETRY_AFTER
+      });
+
+      const date = new Date(Date.now() + 5000).toUTCString();
+      const parsed = getRetryAfterDelay(503, { 'retry-after': date });
+      expect(parsed?.source).toBe(RETRY_DELAY_SOURCES.RETRY_AFTER);
+      expect(parsed?.delay).toBeGreaterThan(3000);
+      expect(parsed?.delay).toBeLessThanOrEqual(5000);
+    });
+
+    it('should parse rate-limit reset headers as delta seconds or epoch timestamps', () => {
+      expect(getRetryAfterDelay(429, { 'RateLimit-Reset': '2' })).toEqual({
+        delay: 2000,
+        source: RETRY_DELAY_SOURCES.RATELIMIT_RESET
+      });
+
+      const epochSeconds = Math.floor(Date.now() / 1000) + 10;
+      const parsed = getRetryAfterDelay(429, { 'x-ratelimit-reset': String(epochSeconds) });
+      expect(parsed?.source).toBe(RETRY_DELAY_SOURCES.X_RATELIMIT_RESET);
+      expect(parsed?.delay).toBeGreaterThan(8000);
+      expect(parsed?.delay).toBeLessThanOrEqual(10000);
+    });
+
+    it('should ignore retry hints on other status codes', () => {
+      expect(getRetryAfterDelay(500, { 'Retry-After': '3' })).toBeNull();
+      expect(getRetryAfterDelay(429, {})).toBeNull();
+    });
+
+    it('should wait for the server-provided delay and record its source', async () => {
+      const { transport, request } = createFakeTransport([throttled({ 'retry-after': '0.2' }), ok()]);
+      const startedAt = Date.now();
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/throttled' },
+        attempts: 2,
+        wait: 10,
+        logAllErrors: true,
+        handleErrors: () => {},
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+      expect(result.errorLogs?.[0]).toEqual(expect.objectContaining({
+        statusCode: 429,
+        retryDelay: 200,
+        retryDelaySource: RETRY_DELAY_SOURCES.RETRY_AFTER
+      }));
+    });
+
+    it('should cap server-provided delays by maxAllowedWait', async () => {
+      const { transport, request } = createFakeTransport([throttled({ 'retry-after': '120' }, 503), ok()]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/throttled' },
+        attempts: 2,
+        wait: 10,
+        maxAllowedWait: 50,
+        logAllErrors: true,
+        handleErrors: () => {},
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.errorLogs?.[0].retryDelay).toBe(50);
+    });
+
+    it('should use the strategy delay when respectRetryAfter is disabled', async () => {
+      const { transport, request } = createFakeTransport([throttled({ 'retry-after': '120' }), ok()]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/throttled' },
+        attempts: 2,
+        wait: 10,
+        respectRetryAfter: false,
+        logAllErrors: true,
+        handleErrors: () => {},
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.errorLogs?.[0]).toEqual(expect.objectContaining({
+        retryDelay: 10,
+        retryDelaySource: RETRY_DELAY_SOURCES.STRATEGY
+      }));
+    });
+  });
+
+  describe('Backoff strategies', () => {
+    it('should keep full jitter delays between zero and the exponential ceiling', () => {
+      for (let i = 0; i < 50; i++) {
+        const value = getNewDelayTime(RETRY_STRATEGIES.FULL_JITTER, 100, 3);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(400);
+      }
+    });
+
+    it('should keep equal jitter delays in the upper half of the exponential ceiling', () => {
+      for (let i = 0; i < 50; i++) {
+        const value = getNewDelayTime(RETRY_STRATEGIES.EQUAL_JITTER, 100, 3);
+        expect(value).toBeGreaterThanOrEqual(200);
+        expect(value).toBeLessThanOrEqual(400);
+      }
+    });
+
+    it('should derive decorrelated jitter delays from the previous delay', () => {
+      for (let i = 0; i < 50; i++) {
+        const value = getNewDelayTime(RETRY_STRATEGIES.DECORRELATED_JITTER, 100, 4, 0, 500);
+        expect(value).toBeGreaterThanOrEqual(100);
+        expect(value).toBeLessThanOrEqual(1500);
+      }
+      const first = getNewDelayTime(RETRY_STRATEGIES.DECORRELATED_JITTER, 100, 1, 0, 0);
+      expect(first).toBeGreaterThanOrEqual(100);
+      expect(first).toBeLessThanOrEqual(300);
+    });
+
+    it('should follow the Fibonacci sequence', () => {
+      const delays = [1, 2, 3, 4, 5, 6].map((attempt) => getNewDelayTime(RETRY_STRATEGIES.FIBONACCI, 10, attempt));
+      expect(delays).toEqual([10, 10, 20, 30, 50, 80]);
+    });
+
+    it('should call a custom strategy with the attempt, previous delay and last response', async () => {
+      const { transport, request } = createFakeTransport([
+        throttled({}, 500),
+        throttled({}, 500),
+        ok()
+      ]);
+      const strategy = jest.fn((attempt: number, previousDelay: number) => previousDelay + attempt * 5);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/custom' },
+        attempts: 3,
+        retryStrategy: strategy,
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(strategy).toHaveBeenCalledTimes(2);
+      expect(strategy).toHaveBeenNthCalledWith(1, 1, 0, expect.objectContaining({ statusCode: 500 }));
+      expect(strategy).toHaveBeenNthCalledWith(2, 2, 5, expect.objectContaining({ statusCode: 500 }));
+    });
+  });
+
+  describe('Retry policy', () => {
+    it('should retry 409 responses by default', async () => {
+      const { transport, request } = createFakeTransport([throttled({}, 409), ok()]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/conflict' },
+        attempts: 2,
+        wait: 10,
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only retry the configured status and error codes', async () => {
+      const conflictTransport = createFakeTransport([throttled({}, 409), ok()]);
+      const conflict = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/conflict' },
+        attempts: 2,
+        wait: 10,
+        retryPolicy: { retryableStatusCodes: [503] },
+        transport: conflictTransport.transport
+      });
+      expect(conflict.success).toBe(false);
+      expect(conflictTransport.request).toHaveBeenCalledTimes(1);
+
+      const resetTransport = createFakeTransport([
+        { status: 0, statusText: '', error: { message: 'socket hang up', code: 'ECONNRESET' } },
+        { status: 0, statusText: '', error: { message: 'proxy error', code: 'EPROXY' } },
+        ok()
+      ]);
+      const reset = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/proxy' },
+        attempts: 3,
+        wait: 10,
+        retryPolicy: { retryableErrorCodes: ['EPROXY'] },
+        transport: resetTransport.transport
+      });
+      expect(reset.success).toBe(false);
+      expect(resetTransport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry non-idempotent methods without an idempotency key', async () => {
+      const retryPolicy = { retryableMethods: [REQUEST_METHODS.GET, REQUEST_METHODS.PUT] };
+
+      const withoutKey = createFakeTransport([throttled({}, 503), ok()]);
+      const first = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/payments', method: REQUEST_METHODS.POST, body: { amount: 1 } },
+        attempts: 2,
+        wait: 10,
+        retryPolicy,
+        transport: withoutKey.transport
+      });
+      expect(first.success).toBe(false);
+      expect(withoutKey.request).toHaveBeenCalledTimes(1);
+
+      const withKey = createFakeTransport([throttled({}, 503), ok()]);
+      const second = await stableRequest({
+        reqData: {
+          hostname: 'api.example.com',
+          path: '/payments',
+          method: REQUEST_METHODS.POST,
+          body: { amount: 1 },
+          headers: { 'idempotency-key': 'abc-123' }
+        },
+        attempts: 2,
+        wait: 10,
+        retryPolicy,
+        transport: withKey.transport
+      });
+      expect(second.success).toBe(true);
+      expect(withKey.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let the shouldRetry predicate override the classification', async () => {
+      const { transport, request } = createFakeTransport([throttled({}, 400), throttled({}, 400), ok()]);
+      const shouldRetry = jest.fn(({ statusCode, attempt }) => statusCode === 400 && attempt < 3);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/eventually' },
+        attempts: 3,
+        wait: 10,
+        retryPolicy: { shouldRetry },
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(shouldRetry).toHaveBeenCalledTimes(2);
+      expect(shouldRetry).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        statusCode: 400,
+        attempt: 1,
+        isRetryable: false,
+        error: expect.objectContaining({ message: 'Request failed with status code 400' })
+      }));
+    });
+  });
+
+  describe('Deadlines', () => {
+    it('should stop retrying once the overall deadline is exhausted', async () => {
+      const { transport, request } = createFakeTransport([throttled({}, 503)]);
+      const startedAt = Date.now();
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/slow' },
+        attempts: 10,
+        wait: 1000,
+        deadlineMs: 300,
+        logAllErrors: true,
+        handleErrors: () => {},
+        transport
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe(RESPONSE_ERRORS.DEADLINE_EXCEEDED);
+      expect(Date.now() - startedAt).toBeLessThan(450);
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(result.errorLogs?.[result.errorLogs.length - 1].type).toBe(RESPONSE_ERRORS.DEADLINE_EXCEEDED);
+    });
+
+    it('should shorten the final delay to fit the deadline and still make the last attempt', async () => {
+      const { transport, request } = createFakeTransport([throttled({}, 503), ok('done')]);
+      const startedAt = Date.now();
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/recovering' },
+        attempts: 2,
+        wait: 5000,
+        deadlineMs: 300,
+        resReq: true,
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('done');
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(request.mock.calls[1][0].timeout).toBeLessThanOrEqual(300);
+      expect(Date.now() - startedAt).toBeLessThan(450);
+    });
+
+    it('should trim the attempt timeout to the remaining budget', async () => {
+      const { transport, request } = createFakeTransport([ok()]);
+
+      await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/fast', timeout: 15000 },
+        deadlineMs: 500,
+        transport
+      });
+
+      const [{ timeout }] = request.mock.calls[0];
+      expect(timeout).toBeGreaterThan(0);
+      expect(timeout).toBeLessThanOrEqual(500);
+    });
+
+    it('should not attempt the request when an absolute deadline has passed', async () => {
+      const { transport, request } = createFakeTransport([ok()]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/late' },
+        deadline: new Date(Date.now() - 1000),
+        transport
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe(RESPONSE_ERRORS.DEADLINE_EXCEEDED);
+      expect(result.metrics?.totalAttempts).toBe(0);
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should succeed normally within the deadline', async () => {
+      const { transport, request } = createFakeTransport([throttled({}, 503), ok('done')]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/recovering' },
+        attempts: 3,
+        wait: 10,
+        deadlineMs: 1000,
+        resReq: true,
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('done');
+      expect(result.errorType).toBeUndefined();
+    });
+  });
+});
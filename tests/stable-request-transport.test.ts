@@ -0,0 +1,300 @@
+/**
+ * Test Suite: StableRequest Transports
+ * Tests custom transports and the built-in fetch and Node http adapters
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  stableRequest,
+  createFetchTransport,
+  nodeHttpTransport,
+  REQUEST_METHODS,
+  QUERY_ARRAY_FORMATS,
+  VALID_REQUEST_PROTOCOLS
+} from '../src';
+import { createFakeTransport } from './helpers/fake-transport';
+
+describe('StableRequest - Transports', () => {
+  describe('Custom transport', () => {
+    it('should route requests through the provided transport', async () => {
+      const { transport, request } = createFakeTransport([{ status: 200, data: { via: 'custom' } }]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/test' },
+        resReq: true,
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ via: 'custom' });
+      expect(request).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'GET', url: '/test' })
+      );
+    });
+
+    it('should retry classified retryable errors from the transport', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 0, statusText: '', error: { message: 'socket hang up', code: 'ECONNRESET' } },
+        { status: 200, data: 'ok' }
+      ]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/test' },
+        attempts: 3,
+        wait: 10,
+        transport
+      });
+
+      expect(result.success).toBe(true);
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry cancelled requests', async () => {
+      const { transport, request } = createFakeTransport([
+        { status: 0, statusText: '', error: { message: 'Request was cancelled.', isCancelled: true } }
+      ]);
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/test' },
+        attempts: 3,
+        wait: 10,
+        transport
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cancelled');
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Request URLs and methods', () => {
+    const captureRequest = async (reqData: Parameters<typeof stableRequest>[0]['reqData']) => {
+      const { transport, request } = createFakeTransport([{ status: 200, data: '' }]);
+      const fetchMock = jest.fn().mockResolvedValue(new Response('', { status: 200 }));
+      await stableRequest({ reqData, transport });
+      await stableRequest({ reqData, transport: createFetchTransport({ fetch: fetchMock as unknown as typeof fetch }) });
+      return { config: request.mock.calls[0][0], url: fetchMock.mock.calls[0][0], init: fetchMock.mock.calls[0][1] };
+    };
+
+    it('should default the port from the protocol', async () => {
+      const http = await captureRequest({ hostname: 'api.example.com', protocol: VALID_REQUEST_PROTOCOLS.HTTP, path: '/a' });
+      const https = await captureRequest({ hostname: 'api.example.com', path: '/a' });
+
+      expect(http.config.baseURL).toBe('http://api.example.com:80');
+      expect(https.config.baseURL).toBe('https://api.example.com:443');
+    });
+
+    it('should accept a url instead of hostname, path and port', async () => {
+      const { config, url } = await captureRequest({
+        url: 'http://localhost:8080/v1/users?active=true',
+        query: { page: 2 }
+      });
+
+      expect(config.baseURL).toBe('http://localhost:8080');
+      expect(config.url).toBe('/v1/users?active=true');
+      expect(url).toBe('http://localhost:8080/v1/users?active=true&page=2');
+    });
+
+    it('should fail without rejecting on a missing host or an unsupported protocol', async () => {
+      const missingHost = await stableRequest({ reqData: { path: '/a' } });
+      const unsupported = await stableRequest({ reqData: { url: 'ftp://files.example.com/a' } });
+
+      expect(missingHost.success).toBe(false);
+      expect(missingHost.error).toContain('hostname or reqData.url');
+      expect(missingHost.metrics?.totalAttempts).toBe(0);
+      expect(unsupported.success).toBe(false);
+      expect(unsupported.error).toContain('Unsupported protocol');
+    });
+
+    it('should still throw invalid request data when throwOnFailedErrorAnalysis is set', async () => {
+      await expect(stableRequest({
+        reqData: { path: '/a' },
+        throwOnFailedErrorAnalysis: true
+      })).rejects.toThrow('hostname or reqData.url');
+    });
+
+    it('should fill path parameters', async () => {
+      const { url } = await captureRequest({
+        hostname: 'api.example.com',
+        path: '/orgs/{org}/users/:id',
+        pathParams: { org: 'acme corp', id: 42 }
+      });
+
+      expect(url).toBe('https://api.example.com:443/orgs/acme%20corp/users/42');
+      await expect(stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/users/:id', pathParams: {} }
+      })).resolves.toEqual(expect.objectContaining({
+        success: false,
+        error: expect.stringContaining('Missing value for path parameter "id"')
+      }));
+    });
+
+    it('should fill {name} placeholders written inside url', async () => {
+      const { url } = await captureRequest({
+        url: 'https://api.example.com/v1/orgs/{org}/users/{id}?fields=name',
+        pathParams: { org: 'acme', id: 42 }
+      });
+
+      expect(url).toBe('https://api.example.com:443/v1/orgs/acme/users/42?fields=name');
+    });
+
+    it.each([
+      [QUERY_ARRAY_FORMATS.BRACKETS, 'tag%5B%5D=a&tag%5B%5D=b'],
+      [QUERY_ARRAY_FORMATS.INDICES, 'tag%5B0%5D=a&tag%5B1%5D=b'],
+      [QUERY_ARRAY_FORMATS.REPEAT, 'tag=a&tag=b'],
+      [QUERY_ARRAY_FORMATS.COMMA, 'tag=a,b']
+    ])('should serialize arrays in the %s format', async (arrayFormat, expected) => {
+      const { url } = await captureRequest({
+        hostname: 'api.example.com',
+        path: '/search',
+        query: { tag: ['a', 'b'] },
+        querySerialization: { arrayFormat }
+      });
+
+      expect(url).toBe(`https://api.example.com:443/search?${expected}`);
+    });
+
+    it('should honour encoding, null handling and custom serializers', async () => {
+      const raw = await captureRequest({
+        hostname: 'api.example.com',
+        path: '/search',
+        query: { q: 'a b', empty: null },
+        querySerialization: { encode: false, skipNulls: false }
+      });
+      const custom = await captureRequest({
+        hostname: 'api.example.com',
+        path: '/search',
+        query: { q: 1 },
+        querySerialization: { serializer: (params) => `custom=${params.q}` }
+      });
+
+      expect(raw.url).toBe('https://api.example.com:443/search?q=a b&empty=');
+      expect(custom.url).toBe('https://api.example.com:443/search?custom=1');
+    });
+
+    it('should support HEAD and OPTIONS requests', async () => {
+      const head = await captureRequest({ hostname: 'api.example.com', path: '/a', method: REQUEST_METHODS.HEAD });
+      const options = await captureRequest({ hostname: 'api.example.com', path: '/a', method: REQUEST_METHODS.OPTIONS });
+
+      expect(head.init.method).toBe('HEAD');
+      expect(options.config.method).toBe('OPTIONS');
+    });
+  });
+
+  describe('Fetch transport', () => {
+    it('should build the URL, serialize the body and parse JSON responses', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(
+        new Response(JSON.stringify({ id: 7 }), {
+          status: 201,
+          headers: { 'content-type': 'application/json' }
+        })
+      );
+
+      const result = await stableRequest({
+        reqData: {
+          hostname: 'api.example.com',
+          path: '/users',
+          method: REQUEST_METHODS.POST,
+          query: { tag: 'a' },
+          body: { name: 'Jane' }
+        },
+        resReq: true,
+        transport: createFetchTransport({ fetch: fetchMock as unknown as typeof fetch })
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ id: 7 });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.example.com:443/users?tag=a');
+      expect(init.method).toBe('POST');
+      expect(init.body).toBe(JSON.stringify({ name: 'Jane' }));
+      expect(init.headers['Content-Type']).toBe('application/json');
+    });
+
+    it('should classify 503 responses as retryable errors', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+        .mockResolvedValueOnce(new Response('fine', { status: 200 }));
+
+      const result = await stableRequest({
+        reqData: { hostname: 'api.example.com', path: '/flaky' },
+        resReq: true,
+        attempts: 2,
+        wait: 10,
+        transport: createFetchTransport({ fetch: fetchMock as unknown as typeof fetch })
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('fine');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Node http transport', () => {
+    let server: http.Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          if (req.url?.startsWith('/missing')) {
+            res.writeHead(404, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({ message: 'missing' }));
+            return;
+          }
+          res.writeHead(200, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ method: req.method, url: req.url, body: body ? JSON.parse(body) : null }));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('should perform requests against a local server', async () => {
+      const result = await stableRequest({
+        reqData: {
+          hostname: '127.0.0.1',
+          protocol: VALID_REQUEST_PROTOCOLS.HTTP,
+          port,
+          path: '/echo',
+          method: REQUEST_METHODS.PUT,
+          query: { q: 1 },
+          body: { hello: 'world' }
+        },
+        resReq: true,
+        transport: nodeHttpTransport
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ method: 'PUT', url: '/echo?q=1', body: { hello: 'world' } });
+    });
+
+    it('should surface non-2xx responses as failures', async () => {
+      const result = await stableRequest({
+        reqData: {
+          hostname: '127.0.0.1',
+          protocol: VALID_REQUEST_PROTOCOLS.HTTP,
+          port,
+          path: '/missing'
+        },
+        attempts: 2,
+        wait: 10,
+        logAllErrors: true,
+        handleErrors: () => {},
+        transport: nodeHttpTransport
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorLogs).toHaveLength(1);
+      expect(result.errorLogs?.[0].statusCode).toBe(404);
+      expect(result.errorLogs?.[0].isRetryable).toBe(false);
+    });
+  });
+});